@@ -1,3 +1,4 @@
+import { useEffect } from "react";
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
@@ -6,6 +7,8 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "@/pages/Home";
 import ChatRoom from "@/pages/ChatRoom";
 import NotFound from "@/pages/not-found";
+import { useUnreadTotal, useOutboxSender } from "@/hooks/use-secure-chat";
+import { setFaviconBadge } from "@/lib/favicon";
 
 function Router() {
   return (
@@ -17,11 +20,31 @@ function Router() {
   );
 }
 
+// Reflect unread messages in the tab title and favicon
+function UnreadBadge() {
+  const total = useUnreadTotal();
+
+  useEffect(() => {
+    document.title = total > 0 ? `(${total}) SecureChat` : "SecureChat";
+    setFaviconBadge(total).catch(() => {});
+  }, [total]);
+
+  return null;
+}
+
+// Deliver queued messages in the background
+function OutboxSender() {
+  useOutboxSender();
+  return null;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
+        <UnreadBadge />
+        <OutboxSender />
         <Router />
       </TooltipProvider>
     </QueryClientProvider>
@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { Download, FileText, Loader2, ShieldAlert } from "lucide-react";
+import { downloadAttachment, formatBytes } from "@/lib/attachments";
+import type { Attachment } from "@/lib/message-body";
+
+interface AttachmentViewProps {
+  attachment: Attachment;
+  isMe: boolean;
+}
+
+// Image thumbnail or file card; the full file is downloaded and decrypted on click
+export function AttachmentView({ attachment, isMe }: AttachmentViewProps) {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isImage = attachment.mimeType.startsWith("image/");
+
+  useEffect(() => {
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [objectUrl]);
+
+  const load = async () => {
+    if (objectUrl) return objectUrl;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const url = URL.createObjectURL(await downloadAttachment(attachment));
+      setObjectUrl(url);
+      return url;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to download attachment");
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Images: first click swaps in the full image, the next opens it in a tab
+  const handleImageClick = async () => {
+    if (objectUrl) {
+      window.open(objectUrl, "_blank", "noopener");
+      return;
+    }
+    await load();
+  };
+
+  const handleDownload = async () => {
+    const url = await load();
+    if (!url) return;
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = attachment.name;
+    link.click();
+  };
+
+  const errorLine = error && (
+    <div className="mt-1 flex items-center gap-1 text-xs text-yellow-300">
+      <ShieldAlert className="w-3 h-3" /> {error}
+    </div>
+  );
+
+  if (isImage && attachment.thumbnail) {
+    return (
+      <div>
+        <button
+          onClick={handleImageClick}
+          className="relative block overflow-hidden rounded-xl"
+          title={objectUrl ? "Open full size" : "Load full image"}
+        >
+          <img
+            src={objectUrl ?? attachment.thumbnail}
+            alt={attachment.name}
+            width={attachment.width}
+            height={attachment.height}
+            className="max-h-72 w-auto h-auto max-w-full object-contain"
+          />
+          {isLoading && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/30">
+              <Loader2 className="w-6 h-6 animate-spin text-white" />
+            </div>
+          )}
+        </button>
+        {errorLine}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <button
+        onClick={handleDownload}
+        className={`flex items-center gap-3 p-3 rounded-xl text-left min-w-[200px] ${
+          isMe ? "bg-white/10 hover:bg-white/20" : "bg-background/40 hover:bg-background/60"
+        }`}
+      >
+        <FileText className="w-8 h-8 shrink-0 opacity-80" />
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-medium truncate">{attachment.name}</div>
+          <div className="text-xs opacity-70">{formatBytes(attachment.size)}</div>
+        </div>
+        {isLoading ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <Download className="w-4 h-4 opacity-80" />
+        )}
+      </button>
+      {errorLine}
+    </div>
+  );
+}
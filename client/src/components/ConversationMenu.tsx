@@ -0,0 +1,91 @@
+import { addHours, addWeeks, format } from "date-fns";
+import { Archive, ArchiveRestore, Bell, BellOff, Eraser, Pin, PinOff, Trash2 } from "lucide-react";
+import { MUTED_INDEFINITELY, type ConversationPreferences } from "@shared/schema";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+
+const MUTE_OPTIONS: { label: string; until: () => string }[] = [
+  { label: "1 hour", until: () => addHours(new Date(), 1).toISOString() },
+  { label: "8 hours", until: () => addHours(new Date(), 8).toISOString() },
+  { label: "1 week", until: () => addWeeks(new Date(), 1).toISOString() },
+  { label: "Until I unmute", until: () => MUTED_INDEFINITELY },
+];
+
+// "Muted", "Muted until 18:30", "Muted until Mar 4"
+export function formatMutedUntil(mutedUntil: string) {
+  if (mutedUntil >= MUTED_INDEFINITELY) return "Muted";
+  const until = new Date(mutedUntil);
+  const isToday = until.toDateString() === new Date().toDateString();
+  return `Muted until ${format(until, isToday ? "HH:mm" : "MMM d, HH:mm")}`;
+}
+
+interface ConversationMenuProps {
+  conversation: { isPinned: boolean; isArchived: boolean; mutedUntil: string | null };
+  onChange: (preferences: ConversationPreferences) => void;
+  onClearHistory: () => void;
+  onDelete: () => void;
+  children: React.ReactNode; // The list row
+}
+
+// Right-click (or long-press) actions for a row in the conversation list
+export function ConversationMenu({
+  conversation,
+  onChange,
+  onClearHistory,
+  onDelete,
+  children,
+}: ConversationMenuProps) {
+  const { isPinned, isArchived, mutedUntil } = conversation;
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+      <ContextMenuContent className="w-52">
+        {!isArchived && (
+          <ContextMenuItem onSelect={() => onChange({ pinned: !isPinned })}>
+            {isPinned ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+            {isPinned ? "Unpin" : "Pin to top"}
+          </ContextMenuItem>
+        )}
+        <ContextMenuItem onSelect={() => onChange({ archived: !isArchived })}>
+          {isArchived ? <ArchiveRestore className="w-4 h-4 mr-2" /> : <Archive className="w-4 h-4 mr-2" />}
+          {isArchived ? "Unarchive" : "Archive"}
+        </ContextMenuItem>
+        <ContextMenuSeparator />
+        {mutedUntil ? (
+          <ContextMenuItem onSelect={() => onChange({ mutedUntil: null })}>
+            <Bell className="w-4 h-4 mr-2" /> Unmute
+          </ContextMenuItem>
+        ) : (
+          <ContextMenuSub>
+            <ContextMenuSubTrigger>
+              <BellOff className="w-4 h-4 mr-2" /> Mute
+            </ContextMenuSubTrigger>
+            <ContextMenuSubContent>
+              {MUTE_OPTIONS.map((option) => (
+                <ContextMenuItem key={option.label} onSelect={() => onChange({ mutedUntil: option.until() })}>
+                  {option.label}
+                </ContextMenuItem>
+              ))}
+            </ContextMenuSubContent>
+          </ContextMenuSub>
+        )}
+        <ContextMenuSeparator />
+        <ContextMenuItem onSelect={onClearHistory}>
+          <Eraser className="w-4 h-4 mr-2" /> Clear history
+        </ContextMenuItem>
+        <ContextMenuItem onSelect={onDelete} className="text-destructive focus:text-destructive">
+          <Trash2 className="w-4 h-4 mr-2" /> Delete conversation
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+}
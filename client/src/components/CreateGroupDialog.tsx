@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Users } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { MemberPicker } from "@/components/MemberPicker";
+import { useCreateGroup } from "@/hooks/use-groups";
+
+export function CreateGroupDialog() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [members, setMembers] = useState<{ id: string; name: string | null; email: string | null }[]>([]);
+  const createGroup = useCreateGroup();
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setName("");
+      setMembers([]);
+      createGroup.reset();
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const group = await createGroup.mutateAsync({
+      name: name.trim(),
+      memberIds: members.map((m) => m.id),
+    });
+    handleOpenChange(false);
+    setLocation(`/chat/${group.id}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <button className="p-2 hover:bg-secondary rounded-lg transition-colors" title="New group">
+          <Users className="w-4 h-4" />
+        </button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleCreate} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>New group</DialogTitle>
+            <DialogDescription>Name the group and pick who to invite. You'll be its admin.</DialogDescription>
+          </DialogHeader>
+
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Group name"
+            maxLength={100}
+            className="w-full px-4 py-2 rounded-xl bg-secondary/50 border border-white/5 focus:outline-none focus:ring-2 focus:ring-primary"
+            autoFocus
+          />
+
+          <MemberPicker selected={members} onChange={setMembers} />
+
+          {createGroup.error && (
+            <p className="text-sm text-destructive">{createGroup.error.message}</p>
+          )}
+
+          <DialogFooter>
+            <button
+              type="submit"
+              disabled={!name.trim() || members.length === 0 || createGroup.isPending}
+              className="bg-primary text-white px-4 py-2 rounded-xl font-medium hover:bg-primary/90 disabled:opacity-50 transition-colors"
+            >
+              {createGroup.isPending ? "Creating..." : "Create group"}
+            </button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
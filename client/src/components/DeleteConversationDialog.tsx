@@ -0,0 +1,78 @@
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface DeleteConversationDialogProps {
+  action: "clear" | "delete" | null; // null = closed
+  onOpenChange: (open: boolean) => void;
+  canDeleteForBoth: boolean; // 1:1 conversations only
+  isPending: boolean;
+  error: Error | null;
+  onConfirm: (scope: "history" | "me" | "everyone") => void;
+}
+
+// Confirms clearing a conversation's history or deleting the conversation
+export function DeleteConversationDialog({
+  action,
+  onOpenChange,
+  canDeleteForBoth,
+  isPending,
+  error,
+  onConfirm,
+}: DeleteConversationDialogProps) {
+  const destructiveClass =
+    "px-4 py-2 rounded-md bg-destructive text-destructive-foreground text-sm font-medium hover:bg-destructive/90 disabled:opacity-50";
+
+  return (
+    <AlertDialog open={!!action} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{action === "clear" ? "Clear chat history?" : "Delete conversation?"}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {action === "clear"
+              ? "All messages so far will be removed from your view. Others in the chat keep theirs."
+              : canDeleteForBoth
+                ? "Delete it just for you, or for both of you. Deleting for both permanently removes every message and attachment."
+                : "It will be removed from your list along with its history, until someone sends a new message."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+          {action === "clear" ? (
+            <button onClick={() => onConfirm("history")} disabled={isPending} className={destructiveClass}>
+              Clear history
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={() => onConfirm("me")}
+                disabled={isPending}
+                className={
+                  canDeleteForBoth
+                    ? "px-4 py-2 rounded-md border border-border text-sm font-medium hover:bg-secondary disabled:opacity-50"
+                    : destructiveClass
+                }
+              >
+                Delete for me
+              </button>
+              {canDeleteForBoth && (
+                <button onClick={() => onConfirm("everyone")} disabled={isPending} className={destructiveClass}>
+                  Delete for both
+                </button>
+              )}
+            </>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
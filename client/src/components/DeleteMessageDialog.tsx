@@ -0,0 +1,64 @@
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface DeleteMessageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canDeleteForEveryone: boolean; // Only the sender
+  isPending: boolean;
+  error: Error | null;
+  onDelete: (scope: "me" | "everyone") => void;
+}
+
+export function DeleteMessageDialog({
+  open,
+  onOpenChange,
+  canDeleteForEveryone,
+  isPending,
+  error,
+  onDelete,
+}: DeleteMessageDialogProps) {
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete message?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {canDeleteForEveryone
+              ? "Delete it just for you, or for everyone in this chat. Others will see that a message was deleted."
+              : "The message will be removed from your view only."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+          <button
+            onClick={() => onDelete("me")}
+            disabled={isPending}
+            className="px-4 py-2 rounded-md border border-border text-sm font-medium hover:bg-secondary disabled:opacity-50"
+          >
+            Delete for me
+          </button>
+          {canDeleteForEveryone && (
+            <button
+              onClick={() => onDelete("everyone")}
+              disabled={isPending}
+              className="px-4 py-2 rounded-md bg-destructive text-destructive-foreground text-sm font-medium hover:bg-destructive/90 disabled:opacity-50"
+            >
+              Delete for everyone
+            </button>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
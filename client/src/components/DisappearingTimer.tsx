@@ -0,0 +1,64 @@
+import { Timer } from "lucide-react";
+import { DISAPPEARING_TIMER_OPTIONS } from "@shared/schema";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+const UNITS: [seconds: number, name: string][] = [
+  [7 * 24 * 60 * 60, "week"],
+  [24 * 60 * 60, "day"],
+  [60 * 60, "hour"],
+  [60, "minute"],
+];
+
+// "5 minutes", "1 hour", "4 weeks"
+export function formatTimer(seconds: number) {
+  const [size, name] = UNITS.find(([size]) => seconds % size === 0) ?? [1, "second"];
+  const count = seconds / size;
+  return `${count} ${name}${count === 1 ? "" : "s"}`;
+}
+
+interface DisappearingTimerMenuProps {
+  value: number | null;
+  onChange: (seconds: number | null) => void;
+  disabled?: boolean;
+}
+
+// Header control for the conversation's disappearing messages timer
+export function DisappearingTimerMenu({ value, onChange, disabled }: DisappearingTimerMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          disabled={disabled}
+          className="flex items-center gap-1 p-2 hover:bg-secondary rounded-full transition-colors text-muted-foreground disabled:opacity-50"
+          title="Disappearing messages"
+        >
+          <Timer className={`w-5 h-5 ${value ? "text-primary" : ""}`} />
+          {value && <span className="text-xs text-primary">{formatTimer(value)}</span>}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Disappearing messages</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={String(value ?? "off")}
+          onValueChange={(v) => onChange(v === "off" ? null : Number(v))}
+        >
+          <DropdownMenuRadioItem value="off">Off</DropdownMenuRadioItem>
+          {DISAPPEARING_TIMER_OPTIONS.map((seconds) => (
+            <DropdownMenuRadioItem key={seconds} value={String(seconds)}>
+              {formatTimer(seconds)}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
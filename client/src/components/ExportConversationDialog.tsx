@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { FileCode, FileJson, Loader2, Lock } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { MIN_PASSPHRASE_LENGTH, type ExportFormat } from "@/lib/export";
+
+const FORMATS: { value: ExportFormat; label: string; description: string; icon: typeof Lock }[] = [
+  { value: "html", label: "Web page", description: "Readable transcript that opens in any browser", icon: FileCode },
+  { value: "json", label: "JSON", description: "Structured transcript for other tools", icon: FileJson },
+  { value: "encrypted", label: "Encrypted archive", description: "JSON transcript locked with a passphrase", icon: Lock },
+];
+
+interface ExportConversationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isPending: boolean;
+  progress: number; // Messages fetched so far
+  error: Error | null;
+  onExport: (options: { format: ExportFormat; passphrase?: string }) => void;
+}
+
+// Save a copy of the conversation, decrypted (and optionally re-encrypted) on this device
+export function ExportConversationDialog({
+  open,
+  onOpenChange,
+  isPending,
+  progress,
+  error,
+  onExport,
+}: ExportConversationDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>("html");
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+
+  const handleOpenChange = (next: boolean) => {
+    if (isPending) return;
+    onOpenChange(next);
+    if (!next) {
+      setFormat("html");
+      setPassphrase("");
+      setConfirmation("");
+    }
+  };
+
+  const isEncrypted = format === "encrypted";
+  const passphraseError = !isEncrypted
+    ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : confirmation && confirmation !== passphrase
+        ? "Passphrases don't match"
+        : null;
+  const canExport = !isPending && (!isEncrypted || (!passphraseError && confirmation === passphrase));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canExport) return;
+    onExport({ format, passphrase: isEncrypted ? passphrase : undefined });
+  };
+
+  const inputClass =
+    "w-full px-4 py-2 rounded-xl bg-secondary/50 border border-white/5 focus:outline-none focus:ring-2 focus:ring-primary";
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Export conversation</DialogTitle>
+            <DialogDescription>
+              Messages are decrypted on this device; the server never sees the export. Disappearing messages and
+              attachment files aren't included.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {FORMATS.map(({ value, label, description, icon: Icon }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setFormat(value)}
+                disabled={isPending}
+                className={`w-full flex items-center gap-3 p-3 rounded-xl border text-left transition-colors ${
+                  format === value ? "border-primary bg-primary/10" : "border-white/5 hover:bg-secondary/50"
+                }`}
+              >
+                <Icon className="w-5 h-5 shrink-0 text-muted-foreground" />
+                <div>
+                  <div className="text-sm font-medium">{label}</div>
+                  <div className="text-xs text-muted-foreground">{description}</div>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {isEncrypted && (
+            <div className="space-y-2">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase"
+                autoComplete="new-password"
+                disabled={isPending}
+                className={inputClass}
+                autoFocus
+              />
+              <input
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder="Confirm passphrase"
+                autoComplete="new-password"
+                disabled={isPending}
+                className={inputClass}
+              />
+              {passphrase && passphraseError && <p className="text-xs text-muted-foreground">{passphraseError}</p>}
+              <p className="text-xs text-muted-foreground">
+                There's no way to recover the archive if the passphrase is lost.
+              </p>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+          <DialogFooter>
+            <button
+              type="submit"
+              disabled={!canExport}
+              className="bg-primary text-white px-4 py-2 rounded-xl font-medium hover:bg-primary/90 disabled:opacity-50 transition-colors flex items-center gap-2"
+            >
+              {isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              {isPending ? `Exporting ${progress} messages...` : "Export"}
+            </button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { LogOut, MoreVertical, Pencil, User, UserPlus } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MemberPicker } from "@/components/MemberPicker";
+import { PresenceDot, PresenceLabel } from "@/components/Presence";
+import {
+  useAddGroupMembers,
+  useLeaveGroup,
+  useRemoveGroupMember,
+  useRenameGroup,
+  useUpdateGroupMember,
+} from "@/hooks/use-groups";
+
+interface GroupMember {
+  id: string;
+  name: string | null;
+  avatarUrl: string | null;
+  role: "admin" | "member";
+  presence: {
+    status: "online" | "away" | "offline";
+    lastSeenAt: string | null;
+  };
+}
+
+interface GroupInfoProps {
+  group: {
+    id: string;
+    name: string | null;
+    members: GroupMember[];
+  };
+  currentUserId: string;
+  onLeft: () => void;
+  children: React.ReactNode; // Trigger
+}
+
+// Group details: rename, member list with roles, add/remove members, leave
+export function GroupInfo({ group, currentUserId, onLeft, children }: GroupInfoProps) {
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [adding, setAdding] = useState<{ id: string; name: string | null; email: string | null }[] | null>(null);
+
+  const renameGroup = useRenameGroup(group.id);
+  const addMembers = useAddGroupMembers(group.id);
+  const updateMember = useUpdateGroupMember(group.id);
+  const removeMember = useRemoveGroupMember(group.id);
+  const leaveGroup = useLeaveGroup(group.id);
+
+  const isAdmin = group.members.some((m) => m.id === currentUserId && m.role === "admin");
+  const error =
+    renameGroup.error || addMembers.error || updateMember.error || removeMember.error || leaveGroup.error;
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingName?.trim()) return;
+    await renameGroup.mutateAsync(editingName.trim());
+    setEditingName(null);
+  };
+
+  const handleAdd = async () => {
+    if (!adding?.length) return;
+    await addMembers.mutateAsync(adding.map((u) => u.id));
+    setAdding(null);
+  };
+
+  const handleLeave = async () => {
+    await leaveGroup.mutateAsync();
+    onLeft();
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>{children}</SheetTrigger>
+      <SheetContent className="flex flex-col gap-6 overflow-y-auto">
+        <SheetHeader>
+          {editingName !== null ? (
+            <form onSubmit={handleRename} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                maxLength={100}
+                className="flex-1 px-3 py-2 rounded-lg bg-secondary/50 border border-white/5 focus:outline-none focus:ring-2 focus:ring-primary"
+                autoFocus
+              />
+              <button
+                type="submit"
+                disabled={!editingName.trim() || renameGroup.isPending}
+                className="px-3 py-2 rounded-lg bg-primary text-white text-sm disabled:opacity-50"
+              >
+                Save
+              </button>
+            </form>
+          ) : (
+            <SheetTitle className="flex items-center gap-2">
+              {group.name}
+              {isAdmin && (
+                <button
+                  onClick={() => setEditingName(group.name ?? "")}
+                  className="p-1 rounded hover:bg-secondary"
+                  title="Rename group"
+                >
+                  <Pencil className="w-3.5 h-3.5 text-muted-foreground" />
+                </button>
+              )}
+            </SheetTitle>
+          )}
+          <SheetDescription>{group.members.length} members</SheetDescription>
+        </SheetHeader>
+
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+        {/* Add members (admins) */}
+        {isAdmin &&
+          (adding === null ? (
+            <button
+              onClick={() => setAdding([])}
+              className="flex items-center gap-2 text-sm text-primary hover:underline self-start"
+            >
+              <UserPlus className="w-4 h-4" />
+              Add members
+            </button>
+          ) : (
+            <div className="space-y-3">
+              <MemberPicker
+                selected={adding}
+                onChange={setAdding}
+                excludeIds={group.members.map((m) => m.id)}
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setAdding(null)}
+                  className="px-3 py-2 rounded-lg text-sm hover:bg-secondary"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleAdd}
+                  disabled={adding.length === 0 || addMembers.isPending}
+                  className="px-3 py-2 rounded-lg bg-primary text-white text-sm disabled:opacity-50"
+                >
+                  Add
+                </button>
+              </div>
+            </div>
+          ))}
+
+        {/* Members */}
+        <div className="space-y-1">
+          {group.members.map((member) => (
+            <div key={member.id} className="flex items-center gap-3 py-2">
+              <div className="relative w-9 h-9 rounded-full bg-secondary flex items-center justify-center">
+                {member.avatarUrl ? (
+                  <img src={member.avatarUrl} alt="" className="w-9 h-9 rounded-full" />
+                ) : (
+                  <User className="w-4 h-4 text-muted-foreground" />
+                )}
+                <PresenceDot presence={member.presence} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium truncate">
+                  {member.id === currentUserId ? "You" : member.name || "Unknown"}
+                </div>
+                <div className="text-xs">
+                  <PresenceLabel presence={member.presence} />
+                </div>
+              </div>
+              {member.role === "admin" && (
+                <span className="text-[10px] uppercase tracking-wide px-2 py-0.5 rounded-full bg-primary/15 text-primary">
+                  Admin
+                </span>
+              )}
+              {isAdmin && member.id !== currentUserId && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button className="p-1 rounded hover:bg-secondary">
+                      <MoreVertical className="w-4 h-4 text-muted-foreground" />
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem
+                      onSelect={() =>
+                        updateMember.mutate({
+                          userId: member.id,
+                          role: member.role === "admin" ? "member" : "admin",
+                        })
+                      }
+                    >
+                      {member.role === "admin" ? "Remove admin" : "Make admin"}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      className="text-destructive"
+                      onSelect={() => removeMember.mutate(member.id)}
+                    >
+                      Remove from group
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Leave */}
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <button className="mt-auto flex items-center gap-2 text-sm text-destructive hover:underline self-start">
+              <LogOut className="w-4 h-4" />
+              Leave group
+            </button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Leave {group.name}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                You won't receive new messages unless an admin adds you again.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleLeave}>Leave</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </SheetContent>
+    </Sheet>
+  );
+}
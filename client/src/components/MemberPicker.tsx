@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { Search, User, X, Check } from "lucide-react";
+import { useSearchUsers } from "@/hooks/use-users";
+
+interface PickedUser {
+  id: string;
+  name: string | null;
+  email: string | null;
+}
+
+interface MemberPickerProps {
+  selected: PickedUser[];
+  onChange: (selected: PickedUser[]) => void;
+  excludeIds?: string[]; // Already in the group
+}
+
+// Search users and collect a selection (for creating groups and adding members)
+export function MemberPicker({ selected, onChange, excludeIds = [] }: MemberPickerProps) {
+  const [query, setQuery] = useState("");
+  const { data: results = [] } = useSearchUsers(query);
+  const candidates = results.filter((u) => !excludeIds.includes(u.id));
+
+  const isSelected = (id: string) => selected.some((u) => u.id === id);
+
+  const toggle = (user: PickedUser) => {
+    onChange(
+      isSelected(user.id) ? selected.filter((u) => u.id !== user.id) : [...selected, user]
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.map((user) => (
+            <span
+              key={user.id}
+              className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-primary/15 text-sm"
+            >
+              {user.name || user.email || "Unknown"}
+              <button
+                type="button"
+                onClick={() => toggle(user)}
+                className="p-0.5 rounded-full hover:bg-primary/20"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by phone or email..."
+          className="w-full pl-10 pr-4 py-2 rounded-xl bg-secondary/50 border border-white/5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+      </div>
+
+      {query.length >= 3 && (
+        <div className="max-h-56 overflow-y-auto rounded-xl border border-white/5">
+          {candidates.length === 0 ? (
+            <div className="p-4 text-center text-sm text-muted-foreground">No users found</div>
+          ) : (
+            candidates.map((user) => (
+              <button
+                key={user.id}
+                type="button"
+                onClick={() => toggle(user)}
+                className="w-full p-3 flex items-center gap-3 hover:bg-secondary/50 transition-colors text-left"
+              >
+                <div className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center">
+                  {user.avatarUrl ? (
+                    <img src={user.avatarUrl} alt="" className="w-8 h-8 rounded-full" />
+                  ) : (
+                    <User className="w-4 h-4 text-muted-foreground" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium">{user.name || "Unknown"}</div>
+                  <div className="text-xs text-muted-foreground truncate">{user.email}</div>
+                </div>
+                {isSelected(user.id) && <Check className="w-4 h-4 text-primary" />}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { format } from "date-fns";
+import { Loader2, ShieldAlert } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface Revision {
+  id: string;
+  decryptedContent: string;
+  isDecrypted: boolean;
+  createdAt: string; // When it was replaced
+}
+
+interface MessageHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  current?: { content: string; editedAt: string | null };
+  revisions: Revision[];
+  isLoading: boolean;
+}
+
+// Earlier versions of an edited message, decrypted on this device
+export function MessageHistoryDialog({
+  open,
+  onOpenChange,
+  current,
+  revisions,
+  isLoading,
+}: MessageHistoryDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>Earlier versions are stored encrypted, like the message itself.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {current && (
+              <div className="p-3 rounded-xl bg-primary/10 border border-primary/20">
+                <div className="text-[10px] uppercase tracking-wider text-muted-foreground mb-1">
+                  Current
+                  {current.editedAt && ` · ${format(new Date(current.editedAt), "MMM d, h:mm a")}`}
+                </div>
+                <p className="whitespace-pre-wrap break-words text-sm">{current.content}</p>
+              </div>
+            )}
+
+            {[...revisions].reverse().map((revision) => (
+              <div key={revision.id} className="p-3 rounded-xl bg-secondary/50 border border-white/5">
+                <div className="text-[10px] uppercase tracking-wider text-muted-foreground mb-1">
+                  Replaced {format(new Date(revision.createdAt), "MMM d, h:mm a")}
+                </div>
+                {!revision.isDecrypted && (
+                  <div className="flex items-center gap-2 text-yellow-500 text-xs font-bold mb-1">
+                    <ShieldAlert className="w-3 h-3" /> Decryption Error
+                  </div>
+                )}
+                <p className="whitespace-pre-wrap break-words text-sm">{revision.decryptedContent}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,23 +1,173 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useLayoutEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { format } from "date-fns";
-import { ShieldAlert, User, CheckCheck } from "lucide-react";
-import type { Message } from "@shared/schema";
+import {
+  ShieldAlert,
+  User,
+  Check,
+  CheckCheck,
+  Clock,
+  AlertCircle,
+  Loader2,
+  RotateCw,
+  Trash2,
+  Pencil,
+  Ban,
+  Reply,
+  SmilePlus,
+  Timer,
+  HelpCircle,
+} from "lucide-react";
+import { parseSystemNotice, type Message, type Receipt } from "@shared/schema";
+import { formatTimer } from "@/components/DisappearingTimer";
+import { AttachmentView } from "@/components/AttachmentView";
+import { VoiceNotePlayer } from "@/components/VoiceNotePlayer";
+import type { MessageBody } from "@/lib/message-body";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 
-type DecryptedMessage = Message & { isDecrypted?: boolean; content: string };
+type DecryptedMessage = Message & {
+  isDecrypted?: boolean;
+  content: string;
+  body?: MessageBody; // Unset when the message couldn't be decrypted
+  status?: "sending" | "failed"; // Still in the outbox
+  quote?: {
+    id: string;
+    senderId: string;
+    content: string;
+    isDeleted: boolean;
+    isDecrypted: boolean;
+  };
+  decryptedReactions?: { userId: string; emoji: string }[];
+};
 
 interface MessageListProps {
   messages: DecryptedMessage[];
   currentUserId: string;
   isLoading: boolean;
+  receipts?: Receipt[];
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  onRetry?: (messageId: string) => void;
+  onDiscard?: (messageId: string) => void; // Drop an unsent message from the outbox
+  senderNames?: Record<string, string>; // Groups: label incoming bubbles with the sender
+  peerName?: string; // 1:1: names the other side in quotes
+  onReply?: (message: DecryptedMessage) => void;
+  onJumpToMessage?: (messageId: string) => void; // Clicked a quote
+  highlightId?: string | null; // Scrolled into view and highlighted once loaded
+  onEdit?: (message: DecryptedMessage) => void;
+  onDelete?: (message: DecryptedMessage) => void;
+  onShowHistory?: (messageId: string) => void;
+  onReact?: (messageId: string, emoji: string | null) => void; // null removes my reaction
 }
 
-export function MessageList({ messages, currentUserId, isLoading }: MessageListProps) {
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🙏"];
+
+// Start loading older messages when scrolled this close to the top
+const LOAD_MORE_THRESHOLD_PX = 120;
+
+// Timeline text for a server notice, e.g. "You set disappearing messages to 1 hour"
+function describeNotice(content: string, actor: string) {
+  const notice = parseSystemNotice(content);
+  if (!notice) return "This notice isn't supported on this version";
+
+  return notice.seconds
+    ? `${actor} set disappearing messages to ${formatTimer(notice.seconds)}`
+    : `${actor} turned off disappearing messages`;
+}
+
+// Reactions grouped by emoji, in order of first use
+function groupReactions(reactions: { userId: string; emoji: string }[]) {
+  const groups = new Map<string, string[]>();
+  reactions.forEach(({ userId, emoji }) => {
+    groups.set(emoji, [...(groups.get(emoji) ?? []), userId]);
+  });
+  return Array.from(groups, ([emoji, userIds]) => ({ emoji, userIds }));
+}
+
+// A message counts as delivered/read once every other participant's cursor passed it
+function getDeliveryStatus(createdAt: Message["createdAt"], receipts: Receipt[]) {
+  const sentAt = new Date(createdAt).getTime();
+  const reached = (at: Receipt["deliveredAt"]) => !!at && new Date(at).getTime() >= sentAt;
+
+  if (receipts.length === 0) return "sent";
+  if (receipts.every((r) => reached(r.readAt))) return "read";
+  if (receipts.every((r) => reached(r.deliveredAt))) return "delivered";
+  return "sent";
+}
+
+function DeliveryTicks({ status }: { status: "sending" | "sent" | "delivered" | "read" }) {
+  if (status === "sending") return <Clock className="w-3 h-3" />;
+  if (status === "sent") return <Check className="w-3 h-3" />;
+  if (status === "delivered") return <CheckCheck className="w-3 h-3" />;
+  return <CheckCheck className="w-3 h-3 text-sky-300" />;
+}
+
+export function MessageList({
+  messages,
+  currentUserId,
+  isLoading,
+  receipts = [],
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  onRetry,
+  onDiscard,
+  senderNames,
+  peerName,
+  onReply,
+  onJumpToMessage,
+  highlightId,
+  onEdit,
+  onDelete,
+  onShowHistory,
+  onReact,
+}: MessageListProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
+  const prevScrollHeight = useRef<number | null>(null);
+  const prevLastId = useRef<string | undefined>(undefined);
 
+  const firstId = messages[0]?.id;
+  const lastId = messages[messages.length - 1]?.id;
+
+  // Keep the view anchored when older messages are prepended
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (el && prevScrollHeight.current !== null) {
+      el.scrollTop += el.scrollHeight - prevScrollHeight.current;
+      prevScrollHeight.current = null;
+    }
+  }, [firstId]);
+
+  // Follow new messages at the bottom (jump on first load, animate afterwards)
+  useEffect(() => {
+    if (!lastId || lastId === prevLastId.current) return;
+    bottomRef.current?.scrollIntoView({ behavior: prevLastId.current ? "smooth" : "auto" });
+    prevLastId.current = lastId;
+  }, [lastId]);
+
+  // Bring a jumped-to message into view once it has been loaded
+  const isHighlightLoaded = !!highlightId && messages.some((msg) => msg.id === highlightId);
   useEffect(() => {
-    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+    if (!isHighlightLoaded) return;
+    containerRef.current
+      ?.querySelector(`[data-message-id="${highlightId}"]`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [highlightId, isHighlightLoaded]);
+
+  const nameOf = (userId: string) =>
+    userId === currentUserId ? "You" : senderNames?.[userId] ?? peerName ?? "Unknown";
+
+  const handleScroll = () => {
+    const el = containerRef.current;
+    if (!el || !hasMore || isLoadingMore || !onLoadMore) return;
+
+    if (el.scrollTop < LOAD_MORE_THRESHOLD_PX) {
+      prevScrollHeight.current = el.scrollHeight;
+      onLoadMore();
+    }
+  };
 
   if (isLoading) {
     return (
@@ -39,64 +189,264 @@ export function MessageList({ messages, currentUserId, isLoading }: MessageListP
         </div>
         <h3 className="text-xl font-medium text-foreground">No messages yet</h3>
         <p className="text-muted-foreground max-w-xs">
-          This room is empty. Share the link with a friend to start chatting securely.
+          Send an encrypted message to start the conversation.
         </p>
       </div>
     );
   }
 
   return (
-    <div className="flex-1 overflow-y-auto p-4 space-y-6 sm:p-6 custom-scrollbar">
-      <div className="text-center py-4">
-        <span className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-emerald-500/10 text-emerald-500 text-xs font-medium border border-emerald-500/20">
-          <ShieldAlert className="w-3 h-3" />
-          End-to-End Encrypted
-        </span>
-      </div>
-      
+    <div
+      ref={containerRef}
+      onScroll={handleScroll}
+      className="flex-1 overflow-y-auto p-4 space-y-6 sm:p-6 custom-scrollbar"
+    >
+      {isLoadingMore && (
+        <div className="flex justify-center">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {!hasMore && (
+        <div className="text-center py-4">
+          <span className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-emerald-500/10 text-emerald-500 text-xs font-medium border border-emerald-500/20">
+            <ShieldAlert className="w-3 h-3" />
+            End-to-End Encrypted
+          </span>
+        </div>
+      )}
+
       <AnimatePresence initial={false}>
-        {messages.map((msg) => {
+        {messages.map((msg, index) => {
+          if (msg.type === "system") {
+            return (
+              <motion.div
+                key={msg.id}
+                data-message-id={msg.id}
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="flex justify-center"
+              >
+                <span className="flex items-center gap-1.5 px-3 py-1 rounded-full bg-secondary/60 text-xs text-muted-foreground">
+                  <Timer className="w-3 h-3" />
+                  {describeNotice(msg.content, nameOf(msg.senderId))}
+                </span>
+              </motion.div>
+            );
+          }
+
           const isMe = msg.senderId === currentUserId;
+          const body: MessageBody = msg.body ?? { type: "text", text: msg.content };
+          // Name the sender once per run of consecutive messages
+          const previous = messages[index - 1];
+          const showSender =
+            !!senderNames &&
+            !isMe &&
+            (previous?.senderId !== msg.senderId || previous?.type === "system");
+
+          // Hover actions: anyone can reply or delete for themselves, only the sender can edit
+          const myReaction = msg.decryptedReactions?.find((r) => r.userId === currentUserId)?.emoji;
+          const toggleReaction = (emoji: string) => onReact?.(msg.id, emoji === myReaction ? null : emoji);
+
+          const actions = !msg.status && !msg.deletedAt && (
+            <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+              {onReact && (
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <button className="p-1.5 rounded-full hover:bg-secondary" title="React">
+                      <SmilePlus className="w-3.5 h-3.5 text-muted-foreground" />
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent side="top" className="w-auto p-1 flex gap-1 rounded-full">
+                    {QUICK_REACTIONS.map((emoji) => (
+                      <button
+                        key={emoji}
+                        onClick={() => toggleReaction(emoji)}
+                        className={`w-8 h-8 rounded-full text-lg hover:bg-secondary ${
+                          emoji === myReaction ? "bg-primary/20" : ""
+                        }`}
+                      >
+                        {emoji}
+                      </button>
+                    ))}
+                  </PopoverContent>
+                </Popover>
+              )}
+              {onReply && (
+                <button
+                  onClick={() => onReply(msg)}
+                  className="p-1.5 rounded-full hover:bg-secondary"
+                  title="Reply"
+                >
+                  <Reply className="w-3.5 h-3.5 text-muted-foreground" />
+                </button>
+              )}
+              {isMe && msg.isDecrypted && body.type === "text" && onEdit && (
+                <button
+                  onClick={() => onEdit(msg)}
+                  className="p-1.5 rounded-full hover:bg-secondary"
+                  title="Edit"
+                >
+                  <Pencil className="w-3.5 h-3.5 text-muted-foreground" />
+                </button>
+              )}
+              {onDelete && (
+                <button
+                  onClick={() => onDelete(msg)}
+                  className="p-1.5 rounded-full hover:bg-secondary"
+                  title="Delete"
+                >
+                  <Trash2 className="w-3.5 h-3.5 text-muted-foreground" />
+                </button>
+              )}
+            </div>
+          );
           return (
             <motion.div
               key={msg.id}
+              data-message-id={msg.id}
               initial={{ opacity: 0, y: 20, scale: 0.95 }}
               animate={{ opacity: 1, y: 0, scale: 1 }}
               transition={{ duration: 0.3 }}
-              className={`flex ${isMe ? "justify-end" : "justify-start"}`}
+              className={`group flex items-center gap-2 ${isMe ? "justify-end" : "justify-start"}`}
             >
+              {isMe && actions}
               <div
-                className={`
-                  relative max-w-[85%] sm:max-w-[70%] px-5 py-3 rounded-2xl shadow-sm
-                  ${
-                    isMe
-                      ? "bg-primary text-white rounded-br-none"
-                      : "bg-secondary text-secondary-foreground rounded-bl-none border border-white/5"
-                  }
-                `}
+                className={`flex flex-col max-w-[85%] sm:max-w-[70%] ${isMe ? "items-end" : "items-start"}`}
               >
-                {!msg.isDecrypted && (
-                  <div className="flex items-center gap-2 text-yellow-300 text-xs font-bold mb-1 uppercase tracking-wider">
-                    <ShieldAlert className="w-3 h-3" /> Decryption Error
-                  </div>
-                )}
-                
-                <p className="whitespace-pre-wrap break-words leading-relaxed text-[15px]">
-                  {msg.content}
-                </p>
-                
-                <div 
+                <div
                   className={`
-                    mt-1.5 flex items-center gap-1.5 text-[10px] uppercase tracking-wider font-medium opacity-60
-                    ${isMe ? "justify-end text-white/80" : "justify-start text-muted-foreground"}
+                    relative max-w-full px-5 py-3 rounded-2xl shadow-sm transition-shadow
+                    ${msg.id === highlightId ? "ring-2 ring-primary ring-offset-2 ring-offset-background" : ""}
+                    ${
+                      isMe
+                        ? "bg-primary text-white rounded-br-none"
+                        : "bg-secondary text-secondary-foreground rounded-bl-none border border-white/5"
+                    }
                   `}
                 >
-                  <span>
-                    {msg.createdAt && format(new Date(msg.createdAt), "h:mm a")}
-                  </span>
-                  {isMe && <CheckCheck className="w-3 h-3" />}
+                  {showSender && (
+                    <div className="text-xs font-semibold text-primary mb-1">
+                      {senderNames?.[msg.senderId] ?? "Former member"}
+                    </div>
+                  )}
+
+                  {msg.quote && !msg.deletedAt && (
+                    <button
+                      onClick={() => onJumpToMessage?.(msg.quote!.id)}
+                      className={`
+                        mb-2 w-full text-left pl-3 pr-2 py-1.5 rounded-lg border-l-2 text-xs
+                        ${isMe ? "bg-white/10 border-white/60" : "bg-background/40 border-primary"}
+                      `}
+                    >
+                      <div className="font-semibold">{nameOf(msg.quote.senderId)}</div>
+                      <div className={`truncate opacity-80 ${msg.quote.isDeleted ? "italic" : ""}`}>
+                        {msg.quote.isDeleted ? "This message was deleted" : msg.quote.content}
+                      </div>
+                    </button>
+                  )}
+
+                  {!msg.isDecrypted && (
+                    <div className="flex items-center gap-2 text-yellow-300 text-xs font-bold mb-1 uppercase tracking-wider">
+                      <ShieldAlert className="w-3 h-3" /> Decryption Error
+                    </div>
+                  )}
+                
+                  {msg.deletedAt ? (
+                    <p className="flex items-center gap-2 italic opacity-70 text-[15px]">
+                      <Ban className="w-4 h-4" /> This message was deleted
+                    </p>
+                  ) : body.type === "attachment" && body.attachment.voice ? (
+                    <VoiceNotePlayer attachment={body.attachment} voice={body.attachment.voice} isMe={isMe} />
+                  ) : body.type === "attachment" ? (
+                    <AttachmentView attachment={body.attachment} isMe={isMe} />
+                  ) : body.type === "unsupported" ? (
+                    <p className="flex items-center gap-2 italic opacity-70 text-[15px]">
+                      <HelpCircle className="w-4 h-4" /> This message isn't supported by your version of the app
+                    </p>
+                  ) : (
+                    <p className="whitespace-pre-wrap break-words leading-relaxed text-[15px]">
+                      {body.text}
+                    </p>
+                  )}
+                
+                  <div 
+                    className={`
+                      mt-1.5 flex items-center gap-1.5 text-[10px] uppercase tracking-wider font-medium opacity-60
+                      ${isMe ? "justify-end text-white/80" : "justify-start text-muted-foreground"}
+                    `}
+                  >
+                    {msg.editedAt && !msg.deletedAt && (
+                      <button
+                        onClick={() => onShowHistory?.(msg.id)}
+                        className="normal-case hover:underline"
+                        title={`Edited ${format(new Date(msg.editedAt), "MMM d, h:mm a")}`}
+                      >
+                        edited
+                      </button>
+                    )}
+                    {msg.expiresAt && (
+                      <span title={`Disappears ${format(new Date(msg.expiresAt), "MMM d, h:mm a")}`}>
+                        <Timer className="w-3 h-3" />
+                      </span>
+                    )}
+                    <span>
+                      {msg.createdAt && format(new Date(msg.createdAt), "h:mm a")}
+                    </span>
+                    {isMe && msg.status !== "failed" && (
+                      <DeliveryTicks
+                        status={msg.status ?? getDeliveryStatus(msg.createdAt, receipts)}
+                      />
+                    )}
+                    {msg.status === "failed" && (
+                      <span className="flex items-center gap-1 text-red-300">
+                        <AlertCircle className="w-3 h-3" /> Not sent
+                      </span>
+                    )}
+                  </div>
+
+                  {msg.status === "failed" && (
+                    <div className="mt-2 flex justify-end gap-2 text-xs">
+                      <button
+                        onClick={() => onRetry?.(msg.id)}
+                        className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+                      >
+                        <RotateCw className="w-3 h-3" /> Retry
+                      </button>
+                      <button
+                        onClick={() => onDiscard?.(msg.id)}
+                        className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+                      >
+                        <Trash2 className="w-3 h-3" /> Delete
+                      </button>
+                    </div>
+                  )}
                 </div>
+
+                {!msg.deletedAt && !!msg.decryptedReactions?.length && (
+                  <div className="-mt-2 px-2 flex flex-wrap gap-1 relative">
+                    {groupReactions(msg.decryptedReactions).map(({ emoji, userIds }) => (
+                      <button
+                        key={emoji}
+                        onClick={() => toggleReaction(emoji)}
+                        title={userIds.map(nameOf).join(", ")}
+                        className={`
+                          flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border shadow-sm
+                          ${
+                            userIds.includes(currentUserId)
+                              ? "bg-primary/20 border-primary/40"
+                              : "bg-secondary border-white/5"
+                          }
+                        `}
+                      >
+                        <span>{emoji}</span>
+                        <span className="text-muted-foreground">{userIds.length}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
+              {!isMe && actions}
             </motion.div>
           );
         })}
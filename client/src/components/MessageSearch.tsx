@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, Search } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { useMessageSearch } from "@/hooks/use-secure-chat";
+import { MIN_SEARCH_LENGTH, searchTerms, type IndexEntry } from "@/lib/search-index";
+
+// Characters of context kept before the first match
+const SNIPPET_LEAD = 30;
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// The message around the first match, with matches highlighted
+function Snippet({ text, terms }: { text: string; terms: string[] }) {
+  const lower = text.toLowerCase();
+  const first = Math.min(...terms.map((term) => lower.indexOf(term)).filter((i) => i >= 0), text.length);
+  const start = first > SNIPPET_LEAD && first < text.length ? first - SNIPPET_LEAD : 0;
+  const shown = (start > 0 ? "…" : "") + text.slice(start);
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+  return (
+    <>
+      {shown.split(pattern).map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-primary/30 text-foreground rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+interface MessageSearchResultsProps {
+  query: string;
+  conversationId?: string; // Only this conversation
+  conversationName?: (conversationId: string) => string; // Shown when searching everywhere
+  senderName: (senderId: string) => string;
+  onSelect: (hit: IndexEntry) => void;
+}
+
+// Matches from the local search index, newest first
+export function MessageSearchResults({
+  query,
+  conversationId,
+  conversationName,
+  senderName,
+  onSelect,
+}: MessageSearchResultsProps) {
+  const { data: hits = [], isFetching, isError } = useMessageSearch(query, conversationId);
+  const terms = searchTerms(query);
+
+  if (isError) {
+    return <div className="p-4 text-sm text-destructive">Search isn't available in this browser</div>;
+  }
+
+  if (hits.length === 0) {
+    return (
+      <div className="p-4 text-sm text-muted-foreground flex items-center gap-2">
+        {isFetching ? (
+          <>
+            <Loader2 className="w-4 h-4 animate-spin" /> Searching...
+          </>
+        ) : (
+          "No messages found on this device"
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {hits.map((hit) => (
+        <button
+          key={hit.messageId}
+          onClick={() => onSelect(hit)}
+          className="w-full p-3 text-left hover:bg-secondary/50 transition-colors border-b border-white/5 last:border-0"
+        >
+          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span className="truncate">
+              {conversationName && (
+                <span className="font-semibold text-foreground">{conversationName(hit.conversationId)} · </span>
+              )}
+              {senderName(hit.senderId)}
+            </span>
+            <span className="shrink-0">{formatDistanceToNow(new Date(hit.createdAt), { addSuffix: true })}</span>
+          </div>
+          <div className="text-sm line-clamp-2 break-words">
+            <Snippet text={hit.text} terms={terms} />
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface ConversationSearchProps {
+  conversationId: string;
+  senderName: (senderId: string) => string;
+  onSelect: (messageId: string) => void;
+}
+
+// Header button: search this conversation's history on this device
+export function ConversationSearch({ conversationId, senderName, onSelect }: ConversationSearchProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setQuery("");
+      }}
+    >
+      <SheetTrigger asChild>
+        <button
+          className="p-2 hover:bg-secondary rounded-full transition-colors text-muted-foreground"
+          title="Search messages"
+        >
+          <Search className="w-5 h-5" />
+        </button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle>Search messages</SheetTitle>
+          <SheetDescription>Only messages already decrypted on this device can be found.</SheetDescription>
+        </SheetHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search..."
+            className="w-full pl-10 pr-4 py-2 rounded-xl bg-secondary/50 border border-white/5 focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+        </div>
+
+        {query.trim().length >= MIN_SEARCH_LENGTH && (
+          <div className="flex-1 overflow-y-auto -mx-2">
+            <MessageSearchResults
+              query={query}
+              conversationId={conversationId}
+              senderName={senderName}
+              onSelect={(hit) => {
+                setOpen(false);
+                setQuery("");
+                onSelect(hit.messageId);
+              }}
+            />
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
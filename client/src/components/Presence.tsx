@@ -0,0 +1,40 @@
+import { formatDistanceToNow } from "date-fns";
+
+interface PresenceProps {
+  presence: {
+    status: "online" | "away" | "offline";
+    lastSeenAt: string | null;
+  };
+}
+
+// Small status dot to overlay on an avatar
+export function PresenceDot({ presence }: PresenceProps) {
+  if (presence.status === "offline") return null;
+
+  return (
+    <span
+      className={`
+        absolute bottom-0 right-0 w-3 h-3 rounded-full border-2 border-background
+        ${presence.status === "online" ? "bg-emerald-500" : "bg-amber-400"}
+      `}
+    />
+  );
+}
+
+export function PresenceLabel({ presence }: PresenceProps) {
+  if (presence.status === "online") {
+    return <span className="text-emerald-500">online</span>;
+  }
+
+  if (presence.status === "away") {
+    return <span className="text-amber-400">away</span>;
+  }
+
+  return (
+    <span className="text-muted-foreground">
+      {presence.lastSeenAt
+        ? `last seen ${formatDistanceToNow(new Date(presence.lastSeenAt), { addSuffix: true })}`
+        : "offline"}
+    </span>
+  );
+}
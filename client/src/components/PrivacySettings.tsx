@@ -0,0 +1,69 @@
+import { Settings } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useUpdateProfile } from "@/hooks/use-auth";
+
+interface PrivacySettingsProps {
+  user: {
+    hideLastSeen: boolean;
+    sendReadReceipts: boolean;
+  };
+}
+
+export function PrivacySettings({ user }: PrivacySettingsProps) {
+  const updateProfile = useUpdateProfile();
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button className="p-2 hover:bg-secondary rounded-lg transition-colors">
+          <Settings className="w-4 h-4" />
+        </button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Privacy</DialogTitle>
+          <DialogDescription>Control what other people can see about you.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-4 py-2">
+          <div className="space-y-1">
+            <Label htmlFor="hide-last-seen">Hide last seen</Label>
+            <p className="text-xs text-muted-foreground">
+              Others still see when you're online, but not when you were last active.
+            </p>
+          </div>
+          <Switch
+            id="hide-last-seen"
+            checked={user.hideLastSeen}
+            disabled={updateProfile.isPending}
+            onCheckedChange={(hideLastSeen) => updateProfile.mutate({ hideLastSeen })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-4 py-2">
+          <div className="space-y-1">
+            <Label htmlFor="send-read-receipts">Read receipts</Label>
+            <p className="text-xs text-muted-foreground">
+              When off, others only see that their messages were delivered to you.
+            </p>
+          </div>
+          <Switch
+            id="send-read-receipts"
+            checked={user.sendReadReceipts}
+            disabled={updateProfile.isPending}
+            onCheckedChange={(sendReadReceipts) => updateProfile.mutate({ sendReadReceipts })}
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,20 @@
+import { motion } from "framer-motion";
+
+// `name` identifies who is typing in a group
+export function TypingIndicator({ name }: { name?: string }) {
+  return (
+    <span className="inline-flex items-center gap-1 text-xs text-primary">
+      <span className="flex items-end gap-0.5 h-3">
+        {[0, 1, 2].map((i) => (
+          <motion.span
+            key={i}
+            className="w-1 h-1 rounded-full bg-primary"
+            animate={{ y: [0, -3, 0] }}
+            transition={{ duration: 0.6, repeat: Infinity, delay: i * 0.15 }}
+          />
+        ))}
+      </span>
+      {name ? `${name} is typing…` : "typing…"}
+    </span>
+  );
+}
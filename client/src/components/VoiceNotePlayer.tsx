@@ -0,0 +1,112 @@
+import { useEffect, useRef, useState } from "react";
+import { Loader2, Pause, Play, ShieldAlert } from "lucide-react";
+import { downloadAttachment } from "@/lib/attachments";
+import { formatDuration } from "@/lib/voice";
+import type { Attachment } from "@/lib/message-body";
+
+interface VoiceNotePlayerProps {
+  attachment: Attachment;
+  voice: NonNullable<Attachment["voice"]>;
+  isMe: boolean;
+}
+
+// Inline player; the recording is downloaded and decrypted in memory on first play
+export function VoiceNotePlayer({ attachment, voice, isMe }: VoiceNotePlayerProps) {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const objectUrlRef = useRef<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const { duration, waveform } = voice;
+  const played = duration > 0 ? position / duration : 0;
+
+  useEffect(() => {
+    return () => {
+      audioRef.current?.pause();
+      if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+    };
+  }, []);
+
+  const loadAudio = async () => {
+    const blob = await downloadAttachment(attachment);
+    objectUrlRef.current = URL.createObjectURL(blob);
+
+    const audio = new Audio(objectUrlRef.current);
+    audio.ontimeupdate = () => setPosition(audio.currentTime);
+    audio.onplay = () => setIsPlaying(true);
+    audio.onpause = () => setIsPlaying(false);
+    audio.onended = () => setPosition(0);
+    audioRef.current = audio;
+    return audio;
+  };
+
+  const toggle = async () => {
+    if (isPlaying) {
+      audioRef.current?.pause();
+      return;
+    }
+
+    setError(null);
+    try {
+      let audio = audioRef.current;
+      if (!audio) {
+        setIsLoading(true);
+        audio = await loadAudio();
+      }
+      await audio.play();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to play voice message");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 min-w-[220px]">
+        <button
+          onClick={toggle}
+          disabled={isLoading}
+          className={`w-9 h-9 shrink-0 rounded-full flex items-center justify-center ${
+            isMe ? "bg-white/20 hover:bg-white/30" : "bg-primary/20 hover:bg-primary/30"
+          }`}
+          title={isPlaying ? "Pause" : "Play"}
+        >
+          {isLoading ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : isPlaying ? (
+            <Pause className="w-4 h-4" />
+          ) : (
+            <Play className="w-4 h-4" />
+          )}
+        </button>
+
+        <div className="flex-1 flex items-center gap-[2px] h-8">
+          {waveform.map((level, i) => (
+            <div
+              key={i}
+              className={`flex-1 rounded-full ${
+                i / waveform.length < played
+                  ? isMe ? "bg-white" : "bg-primary"
+                  : isMe ? "bg-white/40" : "bg-muted-foreground/40"
+              }`}
+              style={{ height: `${Math.max(level, 0.1) * 100}%` }}
+            />
+          ))}
+        </div>
+
+        <span className="text-xs tabular-nums opacity-80">
+          {formatDuration(isPlaying || position > 0 ? position : duration)}
+        </span>
+      </div>
+
+      {error && (
+        <div className="mt-1 flex items-center gap-1 text-xs text-yellow-300">
+          <ShieldAlert className="w-3 h-3" /> {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@shared/routes";
 import { initializeKeys } from "@/lib/crypto";
+import { unloadOutbox } from "@/lib/outbox";
+import { closeConnection } from "@/lib/realtime";
 import { useEffect, useState } from "react";
 
 // Types
@@ -11,6 +13,8 @@ interface User {
     name: string | null;
     avatarUrl: string | null;
     publicKey: string | null;
+    hideLastSeen: boolean;
+    sendReadReceipts: boolean;
 }
 
 // ============================================
@@ -145,6 +149,8 @@ export function useLogout() {
             return res.json();
         },
         onSuccess: () => {
+            unloadOutbox();
+            closeConnection();
             queryClient.clear();
         },
     });
@@ -157,7 +163,12 @@ export function useUpdateProfile() {
     const queryClient = useQueryClient();
 
     return useMutation({
-        mutationFn: async (data: { name?: string; publicKey?: string }) => {
+        mutationFn: async (data: {
+            name?: string;
+            publicKey?: string;
+            hideLastSeen?: boolean;
+            sendReadReceipts?: boolean;
+        }) => {
             const res = await fetch(api.auth.me.update.path, {
                 method: api.auth.me.update.method,
                 headers: { "Content-Type": "application/json" },
@@ -0,0 +1,143 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+
+interface CreatedGroup {
+  id: string;
+  name: string | null;
+}
+
+// Surface the server's message (e.g. "Only admins can add members")
+async function throwIfFailed(res: Response, fallback: string) {
+  if (res.ok) return;
+  const body = await res.json().catch(() => null);
+  throw new Error(body?.message || fallback);
+}
+
+// Group changes affect the list entry and the open conversation
+function useInvalidateGroup() {
+  const queryClient = useQueryClient();
+
+  return (groupId: string) => {
+    queryClient.invalidateQueries({ queryKey: ["conversations"], exact: true });
+    queryClient.invalidateQueries({ queryKey: ["conversations", groupId] });
+    queryClient.invalidateQueries({ queryKey: ["receipts", groupId] });
+  };
+}
+
+// ============================================
+// useCreateGroup - Create a group with the current user as admin
+// ============================================
+export function useCreateGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { name: string; memberIds: string[] }) => {
+      const res = await fetch(api.groups.create.path, {
+        method: api.groups.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      await throwIfFailed(res, "Failed to create group");
+      return res.json() as Promise<CreatedGroup>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["conversations"] });
+    },
+  });
+}
+
+// ============================================
+// useRenameGroup - Change the group name (admins)
+// ============================================
+export function useRenameGroup(groupId: string) {
+  const invalidateGroup = useInvalidateGroup();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const res = await fetch(buildUrl(api.groups.update.path, { id: groupId }), {
+        method: api.groups.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      await throwIfFailed(res, "Failed to rename group");
+    },
+    onSuccess: () => invalidateGroup(groupId),
+  });
+}
+
+// ============================================
+// useAddGroupMembers - Add users to the group (admins)
+// ============================================
+export function useAddGroupMembers(groupId: string) {
+  const invalidateGroup = useInvalidateGroup();
+
+  return useMutation({
+    mutationFn: async (userIds: string[]) => {
+      const res = await fetch(buildUrl(api.groups.addMembers.path, { id: groupId }), {
+        method: api.groups.addMembers.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userIds }),
+      });
+      await throwIfFailed(res, "Failed to add members");
+    },
+    onSuccess: () => invalidateGroup(groupId),
+  });
+}
+
+// ============================================
+// useUpdateGroupMember - Promote or demote a member (admins)
+// ============================================
+export function useUpdateGroupMember(groupId: string) {
+  const invalidateGroup = useInvalidateGroup();
+
+  return useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: "admin" | "member" }) => {
+      const res = await fetch(buildUrl(api.groups.updateMember.path, { id: groupId, userId }), {
+        method: api.groups.updateMember.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+      await throwIfFailed(res, "Failed to update member");
+    },
+    onSuccess: () => invalidateGroup(groupId),
+  });
+}
+
+// ============================================
+// useRemoveGroupMember - Remove someone else from the group (admins)
+// ============================================
+export function useRemoveGroupMember(groupId: string) {
+  const invalidateGroup = useInvalidateGroup();
+
+  return useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await fetch(buildUrl(api.groups.removeMember.path, { id: groupId, userId }), {
+        method: api.groups.removeMember.method,
+      });
+      await throwIfFailed(res, "Failed to remove member");
+    },
+    onSuccess: () => invalidateGroup(groupId),
+  });
+}
+
+// ============================================
+// useLeaveGroup - Leave the group
+// ============================================
+export function useLeaveGroup(groupId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const res = await fetch(buildUrl(api.groups.leave.path, { id: groupId }), {
+        method: api.groups.leave.method,
+      });
+      await throwIfFailed(res, "Failed to leave group");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["conversations"], exact: true });
+      queryClient.removeQueries({ queryKey: ["conversations", groupId] });
+      queryClient.removeQueries({ queryKey: ["messages", groupId] });
+      queryClient.removeQueries({ queryKey: ["receipts", groupId] });
+    },
+  });
+}
@@ -0,0 +1,43 @@
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import {
+  acquireConnection,
+  subscribeEvents,
+  subscribeStatus,
+  getStatus,
+} from "@/lib/realtime";
+import type { RealtimeServerEvent } from "@shared/schema";
+import { useUser } from "@/hooks/use-auth";
+
+// ============================================
+// useRealtime - Hold the shared socket open while mounted and signed in
+// ============================================
+export function useRealtime(enabled = true) {
+  const { data: user } = useUser();
+  const userId = enabled ? user?.id : undefined;
+
+  // A different user needs a socket opened with their session
+  useEffect(() => {
+    if (!userId) return;
+    return acquireConnection();
+  }, [userId]);
+
+  const status = useSyncExternalStore(subscribeStatus, getStatus);
+
+  return {
+    status,
+    isConnected: !!userId && status === "open",
+  };
+}
+
+// ============================================
+// useRealtimeEvent - Handle server-pushed events
+// ============================================
+export function useRealtimeEvent(handler: (event: RealtimeServerEvent) => void) {
+  // Keep the latest handler without resubscribing on every render
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    return subscribeEvents((event) => handlerRef.current(event));
+  }, []);
+}
@@ -1,49 +1,361 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  keepPreviousData,
+  type InfiniteData,
+} from "@tanstack/react-query";
 import { api, buildUrl } from "@shared/routes";
+import { formatGroupContent, parseGroupContent, type ConversationPreferences, type UnreadTotal } from "@shared/schema";
 import {
   importPublicKey,
   deriveSharedKey,
   encryptMessage,
   decryptMessage
 } from "@/lib/crypto";
-import { useState, useEffect, useCallback } from "react";
+import { fetchGroupKeyring, distributeSenderKey, senderKeyId } from "@/lib/sender-keys";
+import { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from "react";
+import { useRealtime, useRealtimeEvent } from "@/hooks/use-realtime";
+import { useUser } from "@/hooks/use-auth";
+import { sendEvent } from "@/lib/realtime";
+import {
+  enqueueMessage,
+  getOutboxItems,
+  onMessageSent,
+  retryMessage,
+  startOutbox,
+  subscribeOutbox,
+} from "@/lib/outbox";
+import {
+  indexMessages,
+  removeFromIndex,
+  removeConversationFromIndex,
+  searchMessages,
+  MIN_SEARCH_LENGTH,
+  type IndexEntry,
+} from "@/lib/search-index";
+import { decodeEnvelope, encodeEnvelope, previewText, type MessageBody, type OutgoingBody } from "@/lib/message-body";
+import { exportConversation, saveFile, type ExportFormat } from "@/lib/export";
 
 // Types
+interface Presence {
+  status: "online" | "away" | "offline";
+  lastSeenAt: string | null;
+}
+
 interface OtherUser {
   id: string;
   name: string | null;
   avatarUrl: string | null;
   publicKey: string | null;
+  presence: Presence;
 }
 
 interface LastMessage {
   id: string;
+  type: "text" | "system";
   content: string;
   iv: string;
   senderId: string;
   createdAt: string;
+  deletedAt: string | null;
 }
 
+type ConversationMember = OtherUser & {
+  role: "admin" | "member";
+};
+
 interface Conversation {
   id: string;
-  otherUser: OtherUser;
+  isGroup: boolean;
+  name: string | null; // Group name
+  keyGeneration: number; // Current sender key generation (groups)
+  otherUser: OtherUser | null; // null for groups
+  members: ConversationMember[]; // Empty for 1:1 conversations
+  disappearAfterSeconds: number | null;
   lastMessage: LastMessage | null;
+  unreadCount: number;
+  isPinned: boolean;
+  isArchived: boolean; // Archived, with no newer messages since
+  mutedUntil: string | null;
   updatedAt: string;
 }
 
+interface ConversationDetail {
+  id: string;
+  isGroup: boolean;
+  name: string | null;
+  keyGeneration: number;
+  otherUser: OtherUser | null;
+  members: ConversationMember[];
+  disappearAfterSeconds: number | null;
+  createdAt: string;
+}
+
 interface Message {
   id: string;
   conversationId: string;
   senderId: string;
+  type: "text" | "system"; // System messages hold a plaintext notice
   content: string;
   iv: string;
+  seq: number; // Per-conversation order; 0 for legacy messages
+  clientId: string | null;
+  editedAt: string | null;
+  deletedAt: string | null; // Tombstone: content and iv are empty
+  expiresAt: string | null; // Disappearing message
+  replyToId: string | null;
+  replyTo: QuotedMessage | null; // Encrypted copy of the quoted message
+  reactions: Reaction[];
+  createdAt: string;
+}
+
+interface Reaction {
+  userId: string;
+  content: string; // Encrypted emoji
+  iv: string;
   createdAt: string;
 }
 
+interface QuotedMessage {
+  id: string;
+  senderId: string;
+  content: string;
+  iv: string;
+  deletedAt: string | null;
+}
+
+// The quoted message as shown above a reply
+interface QuotePreview {
+  id: string;
+  senderId: string;
+  content: string;
+  isDeleted: boolean;
+  isDecrypted: boolean;
+}
+
+interface MessageRevision {
+  id: string;
+  senderId: string;
+  content: string;
+  iv: string;
+  createdAt: string; // When it was replaced
+}
+
+type DecryptedRevision = MessageRevision & {
+  decryptedContent: string;
+  isDecrypted: boolean;
+};
+
+interface MessagePage {
+  messages: Message[]; // Oldest first
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+type MessagePages = InfiniteData<MessagePage, string | undefined>;
+
+interface MessageSync {
+  messages: Message[]; // Oldest first
+  hasMore: boolean;
+}
+
+type DecryptedMessage = Message & {
+  decryptedContent?: string; // One-line text of the body
+  body?: MessageBody; // Set once decrypted
+  isDecrypted: boolean;
+  status?: "sending" | "failed"; // Set while the message is still in the outbox
+  quote?: QuotePreview;
+  decryptedReactions?: { userId: string; emoji: string }[]; // Undecryptable ones are left out
+};
+
+// Encrypts and decrypts message content for one conversation (1:1 or group)
+interface MessageCrypto {
+  canEncrypt: boolean;
+  generation: number | null; // Group sender key generation new messages use (null for 1:1)
+  encrypt: (plaintext: string) => Promise<{ content: string; iv: string }>;
+  decrypt: (message: { senderId: string; content: string; iv: string }) => Promise<string>;
+}
+
+interface Receipt {
+  userId: string;
+  deliveredAt: string | null;
+  readAt: string | null;
+}
+
+const POLL_INTERVAL_MS = 2000;
+const TYPING_REFRESH_MS = 3000; // Must stay below the server-side expiry
+const TYPING_IDLE_MS = 2000;
+const UNREAD_POLL_INTERVAL_MS = 30 * 1000;
+// Longest single wait for the next message expiry (setTimeout caps at ~24.8 days)
+const MAX_EXPIRY_WAIT_MS = 60 * 60 * 1000;
+
+// Latest message first; conversations without messages by when they changed
+function activityAt(conv: Conversation) {
+  return new Date(conv.lastMessage?.createdAt ?? conv.updatedAt).getTime();
+}
+
+function sortByActivity(conversations: Conversation[]) {
+  return [...conversations].sort((a, b) => activityAt(b) - activityAt(a));
+}
+
+// Server order: sequence number, then creation time for legacy messages
+function compareMessages(a: Message, b: Message) {
+  return a.seq - b.seq || a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id);
+}
+
+// Insert a message into the newest cached page unless it is already there
+function mergeMessage(data: MessagePages | undefined, message: Message) {
+  if (!data || data.pages.length === 0) return data;
+  if (data.pages.some((page) => page.messages.some((m) => m.id === message.id))) return data;
+
+  const [newest, ...older] = data.pages;
+  const messages = [...newest.messages, message].sort(compareMessages);
+  return {
+    ...data,
+    pages: [{ ...newest, messages }, ...older],
+  };
+}
+
+// Swap in a newer version of a cached message (e.g. after an edit)
+function replaceMessage(data: MessagePages | undefined, message: Message) {
+  if (!data) return data;
+  return {
+    ...data,
+    pages: data.pages.map((page) =>
+      page.messages.some((m) => m.id === message.id)
+        ? { ...page, messages: page.messages.map((m) => (m.id === message.id ? message : m)) }
+        : page
+    ),
+  };
+}
+
+// Replace a cached message's reactions
+function setCachedReactions(data: MessagePages | undefined, messageId: string, reactions: Reaction[]) {
+  if (!data) return data;
+  return {
+    ...data,
+    pages: data.pages.map((page) =>
+      page.messages.some((m) => m.id === messageId)
+        ? {
+            ...page,
+            messages: page.messages.map((m) => (m.id === messageId ? { ...m, reactions } : m)),
+          }
+        : page
+    ),
+  };
+}
+
+// Drop a message from every cached page (deleted for me)
+function removeCachedMessage(data: MessagePages | undefined, messageId: string) {
+  if (!data) return data;
+  return {
+    ...data,
+    pages: data.pages.map((page) => ({
+      ...page,
+      messages: page.messages.filter((m) => m.id !== messageId),
+    })),
+  };
+}
+
+// Newest sequence number in the cache (0 if unknown)
+function getLatestSeq(data: MessagePages | undefined) {
+  return data?.pages[0]?.messages.at(-1)?.seq ?? 0;
+}
+
+// Acknowledge delivery or reading of a message (and everything before it)
+async function postReceipt(conversationId: string, messageId: string, status: "delivered" | "read") {
+  const res = await fetch(buildUrl(api.receipts.update.path, { id: conversationId }), {
+    method: api.receipts.update.method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ messageId, status }),
+  });
+  if (!res.ok) throw new Error("Failed to update receipt");
+  return res.json() as Promise<Receipt>;
+}
+
+// Whether the page is visible and the window has focus
+function useIsFocused() {
+  const [isFocused, setIsFocused] = useState(() => !document.hidden && document.hasFocus());
+
+  useEffect(() => {
+    const update = () => setIsFocused(!document.hidden && document.hasFocus());
+    window.addEventListener("focus", update);
+    window.addEventListener("blur", update);
+    document.addEventListener("visibilitychange", update);
+    return () => {
+      window.removeEventListener("focus", update);
+      window.removeEventListener("blur", update);
+      document.removeEventListener("visibilitychange", update);
+    };
+  }, []);
+
+  return isFocused;
+}
+
+// Update a user's presence wherever they appear as the other participant or a group member
+function applyPresence(
+  queryClient: ReturnType<typeof useQueryClient>,
+  userId: string,
+  presence: Presence
+) {
+  const withPresence = <T extends OtherUser>(user: T): T =>
+    user.id === userId ? { ...user, presence } : user;
+  const update = <T extends Conversation | ConversationDetail>(conv: T): T => ({
+    ...conv,
+    otherUser: conv.otherUser && withPresence(conv.otherUser),
+    members: conv.members.map(withPresence),
+  });
+
+  queryClient.setQueryData<Conversation[]>(["conversations"], (old) => old?.map(update));
+  queryClient.setQueriesData<ConversationDetail>(
+    { queryKey: ["conversations"], predicate: (q) => q.queryKey.length === 2 },
+    (old) => old && update(old)
+  );
+}
+
 // ============================================
 // useConversations - List all conversations
 // ============================================
 export function useConversations() {
+  const queryClient = useQueryClient();
+  const { data: user } = useUser();
+  useRealtime();
+
+  useRealtimeEvent((event) => {
+    if (event.type === "message:new") {
+      // New activity changes lastMessage and ordering
+      queryClient.invalidateQueries({ queryKey: ["conversations"], exact: true });
+
+      // The message reached this device
+      const { message } = event;
+      if (user && message.senderId !== user.id) {
+        postReceipt(message.conversationId, message.id, "delivered").catch((e) => {
+          console.error("Failed to send delivery receipt:", e);
+        });
+      }
+    } else if (event.type === "presence") {
+      applyPresence(queryClient, event.userId, event.presence as Presence);
+    } else if (event.type === "receipt" && event.receipt.userId === user?.id) {
+      // Read on another tab/device
+      queryClient.invalidateQueries({ queryKey: ["conversations"], exact: true });
+    } else if (event.type === "message:updated" || event.type === "message:hidden") {
+      // An edit or deletion may change the lastMessage preview
+      queryClient.invalidateQueries({ queryKey: ["conversations"], exact: true });
+    } else if (event.type === "conversation:updated") {
+      // Group renamed, or someone (possibly us) joined or left
+      queryClient.invalidateQueries({ queryKey: ["conversations"], exact: true });
+    } else if (event.type === "conversation:cleared" || event.type === "conversation:deleted") {
+      queryClient.invalidateQueries({ queryKey: ["conversations"], exact: true });
+      if (user) {
+        removeConversationFromIndex(user.id, event.conversationId).catch((e) =>
+          console.error("Failed to update search index:", e)
+        );
+      }
+    }
+  });
+
   return useQuery({
     queryKey: ["conversations"],
     queryFn: async () => {
@@ -51,25 +363,164 @@ export function useConversations() {
       if (!res.ok) throw new Error("Failed to fetch conversations");
       return res.json() as Promise<Conversation[]>;
     },
+    select: sortByActivity,
     staleTime: 30 * 1000, // 30 seconds
   });
 }
 
+// ============================================
+// useLastMessagePreviews - Decrypt each conversation's last message for the list
+// ============================================
+// By conversation id: one-line text, or null if it couldn't be decrypted.
+// Missing while still decrypting, and for deleted and system messages.
+export function useLastMessagePreviews(conversations: Conversation[], myPrivateKey: CryptoKey | null) {
+  const queryClient = useQueryClient();
+  const [previews, setPreviews] = useState<Record<string, string | null>>({});
+  const [keyringVersion, setKeyringVersion] = useState(0);
+
+  // Shared keys by peer public key, previews by message and ciphertext
+  const caches = useMemo(
+    () => ({
+      sharedKeys: new Map<string, Promise<CryptoKey>>(),
+      previews: new Map<string, string>(),
+    }),
+    [myPrivateKey]
+  );
+
+  // Previews that failed are tried again once a new sender key arrives
+  useRealtimeEvent((event) => {
+    if (event.type === "sender-key:new") setKeyringVersion((version) => version + 1);
+  });
+
+  useEffect(() => {
+    if (!myPrivateKey || conversations.length === 0) return;
+    let cancelled = false;
+
+    const groupKey = async (groupId: string, senderId: string, generation: number, refresh: boolean) => {
+      const keyring = await queryClient.fetchQuery({
+        queryKey: ["sender-keys", groupId],
+        queryFn: () => fetchGroupKeyring(groupId, myPrivateKey),
+        staleTime: refresh ? 0 : Infinity,
+      });
+      return keyring.keys.get(senderKeyId(senderId, generation));
+    };
+
+    const decrypt = async (conv: Conversation, message: LastMessage) => {
+      if (!conv.isGroup) {
+        const publicKey = conv.otherUser?.publicKey;
+        if (!publicKey) throw new Error("Missing public key");
+        let sharedKey = caches.sharedKeys.get(publicKey);
+        if (!sharedKey) {
+          sharedKey = importPublicKey(publicKey).then((theirKey) => deriveSharedKey(myPrivateKey, theirKey));
+          caches.sharedKeys.set(publicKey, sharedKey);
+        }
+        return decryptMessage(message.content, message.iv, await sharedKey);
+      }
+
+      const parsed = parseGroupContent(message.content);
+      if (!parsed) throw new Error("Malformed group message");
+      // A key shared since the keyring was cached needs a fresh fetch
+      const key =
+        (await groupKey(conv.id, message.senderId, parsed.generation, false)) ??
+        (await groupKey(conv.id, message.senderId, parsed.generation, true));
+      if (!key) throw new Error("Missing sender key");
+      return decryptMessage(parsed.ciphertext, message.iv, key);
+    };
+
+    Promise.all(
+      conversations.map(async (conv): Promise<[string, string | null] | null> => {
+        const message = conv.lastMessage;
+        if (!message || message.deletedAt || message.type === "system") return null;
+
+        const cacheKey = `${message.id}:${message.iv}`;
+        if (!caches.previews.has(cacheKey)) {
+          try {
+            caches.previews.set(cacheKey, previewText(decodeEnvelope(await decrypt(conv, message)).body));
+          } catch (e) {
+            return [conv.id, null]; // Not cached, so it's retried on the next pass
+          }
+        }
+        return [conv.id, caches.previews.get(cacheKey) ?? null];
+      })
+    ).then((entries) => {
+      if (!cancelled) {
+        setPreviews(Object.fromEntries(entries.filter((entry): entry is [string, string | null] => !!entry)));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversations, myPrivateKey, caches, keyringVersion]);
+
+  return previews;
+}
+
 // ============================================
 // useConversation - Get single conversation
 // ============================================
 export function useConversation(conversationId: string) {
+  const queryClient = useQueryClient();
+
+  useRealtimeEvent((event) => {
+    if (event.type === "presence") {
+      applyPresence(queryClient, event.userId, event.presence as Presence);
+    } else if (event.type === "conversation:updated" && event.conversationId === conversationId) {
+      queryClient.invalidateQueries({ queryKey: ["conversations", conversationId] });
+      queryClient.invalidateQueries({ queryKey: ["receipts", conversationId] });
+      queryClient.invalidateQueries({ queryKey: ["sender-keys", conversationId] });
+    } else if (event.type === "conversation:deleted" && event.conversationId === conversationId) {
+      // Refetching fails, which sends the chat back home
+      queryClient.invalidateQueries({ queryKey: ["conversations", conversationId] });
+    }
+  });
+
   return useQuery({
     queryKey: ["conversations", conversationId],
     queryFn: async () => {
       const res = await fetch(buildUrl(api.conversations.get.path, { id: conversationId }));
       if (!res.ok) throw new Error("Failed to fetch conversation");
-      return res.json();
+      return res.json() as Promise<ConversationDetail>;
     },
     enabled: !!conversationId,
   });
 }
 
+// ============================================
+// useUnreadTotal - Unread messages across all conversations
+// ============================================
+export function useUnreadTotal() {
+  const queryClient = useQueryClient();
+  const { data: user } = useUser();
+  const { isConnected } = useRealtime(!!user);
+
+  useRealtimeEvent((event) => {
+    const isIncoming = event.type === "message:new" && event.message.senderId !== user?.id;
+    const isMyReceipt = event.type === "receipt" && event.receipt.userId === user?.id;
+    // Muting or unmuting changes what counts
+    const isUpdate =
+      event.type === "conversation:updated" ||
+      event.type === "conversation:cleared" ||
+      event.type === "conversation:deleted";
+    if (isIncoming || isMyReceipt || isUpdate) {
+      queryClient.invalidateQueries({ queryKey: ["unread"] });
+    }
+  });
+
+  const query = useQuery({
+    queryKey: ["unread"],
+    queryFn: async () => {
+      const res = await fetch(api.conversations.unread.path);
+      if (!res.ok) throw new Error("Failed to fetch unread count");
+      return res.json() as Promise<UnreadTotal>;
+    },
+    enabled: !!user,
+    refetchInterval: isConnected ? false : UNREAD_POLL_INTERVAL_MS,
+  });
+
+  return user ? query.data?.total ?? 0 : 0;
+}
+
 // ============================================
 // useCreateConversation - Start chat with user
 // ============================================
@@ -92,101 +543,970 @@ export function useCreateConversation() {
   });
 }
 
+// ============================================
+// useSetDisappearingTimer - Change the conversation's disappearing messages timer
+// ============================================
+export function useSetDisappearingTimer(conversationId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (seconds: number | null) => {
+      const res = await fetch(buildUrl(api.conversations.setDisappearing.path, { id: conversationId }), {
+        method: api.conversations.setDisappearing.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ seconds }),
+      });
+      if (!res.ok) throw new Error("Failed to update disappearing messages");
+      return res.json() as Promise<{ disappearAfterSeconds: number | null }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["conversations"] });
+    },
+  });
+}
+
+// ============================================
+// useUpdateConversationPreferences - Pin, archive or mute a conversation (just for me)
+// ============================================
+export function useUpdateConversationPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      conversationId,
+      ...preferences
+    }: ConversationPreferences & { conversationId: string }) => {
+      const res = await fetch(buildUrl(api.conversations.updatePreferences.path, { id: conversationId }), {
+        method: api.conversations.updatePreferences.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(preferences),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to update conversation");
+      }
+      return res.json() as Promise<{ isPinned: boolean; isArchived: boolean; mutedUntil: string | null }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["conversations"], exact: true });
+      queryClient.invalidateQueries({ queryKey: ["unread"] });
+    },
+  });
+}
+
+// ============================================
+// useDeleteConversation - Clear my history, delete for me, or delete for both
+// ============================================
+export function useDeleteConversation() {
+  const queryClient = useQueryClient();
+  const { data: user } = useUser();
+
+  return useMutation({
+    mutationFn: async ({
+      conversationId,
+      scope,
+    }: {
+      conversationId: string;
+      scope: "history" | "me" | "everyone";
+    }) => {
+      const route =
+        scope === "history"
+          ? api.conversations.clear
+          : scope === "me"
+            ? api.conversations.hide
+            : api.conversations.delete;
+      const res = await fetch(buildUrl(route.path, { id: conversationId }), { method: route.method });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to delete conversation");
+      }
+    },
+    onSuccess: (_, { conversationId, scope }) => {
+      if (scope === "everyone") {
+        queryClient.removeQueries({ queryKey: ["messages", conversationId] });
+      } else {
+        queryClient.resetQueries({ queryKey: ["messages", conversationId] });
+      }
+      queryClient.invalidateQueries({ queryKey: ["conversations"], exact: true });
+      queryClient.invalidateQueries({ queryKey: ["unread"] });
+      if (user) {
+        removeConversationFromIndex(user.id, conversationId).catch((e) =>
+          console.error("Failed to update search index:", e)
+        );
+      }
+    },
+  });
+}
+
+// ============================================
+// useConversationKeys - Message encryption for a 1:1 chat or group
+// ============================================
+export function useConversationKeys(
+  conversation: ConversationDetail | undefined,
+  myPrivateKey: CryptoKey | null
+): MessageCrypto | null {
+  const queryClient = useQueryClient();
+  const { data: user } = useUser();
+  const isGroup = !!conversation?.isGroup;
+  const groupId = isGroup ? conversation!.id : "";
+  const otherUserPublicKeyBase64 = conversation?.otherUser?.publicKey ?? null;
+
+  // 1:1: derive the shared key once per key pair
+  const [sharedKey, setSharedKey] = useState<CryptoKey | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSharedKey(null);
+
+    if (!myPrivateKey || !otherUserPublicKeyBase64) return;
+
+    importPublicKey(otherUserPublicKeyBase64)
+      .then((theirPublicKey) => deriveSharedKey(myPrivateKey, theirPublicKey))
+      .then((key) => {
+        if (!cancelled) setSharedKey(key);
+      })
+      .catch((e) => console.error("Failed to derive shared key:", e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [myPrivateKey, otherUserPublicKeyBase64]);
+
+  // Groups: every sender key shared with me
+  const keyring = useQuery({
+    queryKey: ["sender-keys", groupId],
+    queryFn: () => fetchGroupKeyring(groupId, myPrivateKey!),
+    enabled: isGroup && !!myPrivateKey,
+  });
+
+  useRealtimeEvent((event) => {
+    if (event.type === "sender-key:new" && event.conversationId === groupId) {
+      queryClient.invalidateQueries({ queryKey: ["sender-keys", groupId] });
+    }
+  });
+
+  // Create and share my key for the current generation if I don't have one yet
+  const distributing = useRef<string | null>(null);
+  useEffect(() => {
+    if (!isGroup || !keyring.data || !myPrivateKey || !user) return;
+
+    const { generation, keys } = keyring.data;
+    // Wait until the member list reflects the same generation
+    if (conversation!.keyGeneration !== generation) return;
+    if (keys.has(senderKeyId(user.id, generation))) return;
+
+    const attempt = `${groupId}:${generation}`;
+    if (distributing.current === attempt) return;
+    distributing.current = attempt;
+
+    distributeSenderKey(groupId, generation, myPrivateKey, conversation!.members)
+      .then(() => queryClient.invalidateQueries({ queryKey: ["sender-keys", groupId] }))
+      .catch((e) => {
+        console.error("Failed to distribute sender key:", e);
+        // Try again once the group changes
+        distributing.current = null;
+        queryClient.invalidateQueries({ queryKey: ["conversations", groupId] });
+      });
+  }, [isGroup, groupId, keyring.data, conversation, myPrivateKey, user?.id]);
+
+  return useMemo<MessageCrypto | null>(() => {
+    if (!conversation) return null;
+
+    if (!isGroup) {
+      if (!sharedKey) return null;
+      return {
+        canEncrypt: true,
+        generation: null,
+        encrypt: async (plaintext) => {
+          const { ciphertext, iv } = await encryptMessage(plaintext, sharedKey);
+          return { content: ciphertext, iv };
+        },
+        decrypt: (message) => decryptMessage(message.content, message.iv, sharedKey),
+      };
+    }
+
+    if (!keyring.data || !user) return null;
+    const { generation, keys } = keyring.data;
+    const myKey = keys.get(senderKeyId(user.id, generation));
+
+    return {
+      canEncrypt: !!myKey,
+      generation,
+      encrypt: async (plaintext) => {
+        if (!myKey) throw new Error("Group encryption key not ready");
+        const { ciphertext, iv } = await encryptMessage(plaintext, myKey);
+        return { content: formatGroupContent(generation, ciphertext), iv };
+      },
+      decrypt: async (message) => {
+        const parsed = parseGroupContent(message.content);
+        const key = parsed && keys.get(senderKeyId(message.senderId, parsed.generation));
+        if (!key) throw new Error("Missing sender key");
+        return decryptMessage(parsed.ciphertext, message.iv, key);
+      },
+    };
+  }, [conversation?.id, isGroup, sharedKey, keyring.data, user?.id]);
+}
+
 // ============================================
 // useMessages - Get messages with decryption
 // ============================================
-export function useMessages(
-  conversationId: string,
-  myPrivateKey: CryptoKey | null,
-  otherUserPublicKeyBase64: string | null
-) {
-  const query = useQuery({
+export function useMessages(conversationId: string, messageCrypto: MessageCrypto | null) {
+  const queryClient = useQueryClient();
+  const { data: user } = useUser();
+  const userId = user?.id;
+  const { isConnected } = useRealtime(!!conversationId);
+
+  // Pages go from newest to oldest; fetchNextPage loads older history
+  const query = useInfiniteQuery({
     queryKey: ["messages", conversationId],
-    queryFn: async () => {
-      const res = await fetch(buildUrl(api.messages.list.path, { id: conversationId }));
+    queryFn: async ({ pageParam }) => {
+      const url = buildUrl(api.messages.list.path, { id: conversationId });
+      const res = await fetch(pageParam ? `${url}?cursor=${encodeURIComponent(pageParam)}` : url);
       if (!res.ok) throw new Error("Failed to fetch messages");
-      return res.json() as Promise<Message[]>;
+      return res.json() as Promise<MessagePage>;
     },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.nextCursor ?? undefined : undefined),
     enabled: !!conversationId,
-    refetchInterval: 2000, // Poll every 2 seconds
   });
 
-  const [decryptedMessages, setDecryptedMessages] = useState<
-    (Message & { decryptedContent?: string; isDecrypted: boolean })[]
-  >([]);
+  // Cached pages miss whatever changed while the chat was closed; refresh them on open
+  useEffect(() => {
+    const queryKey = ["messages", conversationId];
+    if (!conversationId || !queryClient.getQueryData(queryKey)) return;
+    queryClient.invalidateQueries({ queryKey }).catch((e) => console.error("Failed to sync messages:", e));
+  }, [conversationId, queryClient]);
+
+  // Fetch only messages newer than the newest cached one
+  const isSyncing = useRef(false);
+  const resyncRequested = useRef(false);
+  const syncNewMessages = useCallback(async (): Promise<void> => {
+    if (isSyncing.current) {
+      // Run again once the current sync finishes so nothing is missed
+      resyncRequested.current = true;
+      return;
+    }
+    isSyncing.current = true;
+
+    try {
+      const queryKey = ["messages", conversationId];
+      const url = buildUrl(api.messages.list.path, { id: conversationId });
+      let after = queryClient.getQueryData<MessagePages>(queryKey)?.pages[0]?.messages.at(-1)?.id;
+
+      while (after) {
+        const res = await fetch(`${url}?after=${encodeURIComponent(after)}`);
+        if (res.status === 404) break; // Anchor message is gone; fall back to a full refetch
+        if (!res.ok) throw new Error("Failed to sync messages");
+
+        const delta = (await res.json()) as MessageSync;
+        queryClient.setQueryData<MessagePages>(queryKey, (old) =>
+          delta.messages.reduce(mergeMessage, old)
+        );
+
+        if (!delta.hasMore) return;
+        after = delta.messages.at(-1)?.id;
+      }
+
+      await queryClient.invalidateQueries({ queryKey });
+    } finally {
+      isSyncing.current = false;
+      if (resyncRequested.current) {
+        resyncRequested.current = false;
+        await syncNewMessages();
+      }
+    }
+  }, [conversationId, queryClient]);
+
+  // Merge pushed messages straight into the cache, backfilling any gap first
+  useRealtimeEvent((event) => {
+    if (event.type === "message:updated" && event.message.conversationId === conversationId) {
+      queryClient.setQueryData<MessagePages>(["messages", conversationId], (old) =>
+        replaceMessage(old, event.message as Message)
+      );
+      return;
+    }
+
+    if (event.type === "reaction:updated" && event.conversationId === conversationId) {
+      queryClient.setQueryData<MessagePages>(["messages", conversationId], (old) =>
+        setCachedReactions(old, event.messageId, event.reactions as Reaction[])
+      );
+      return;
+    }
+
+    if (event.type === "message:hidden" && event.conversationId === conversationId) {
+      queryClient.setQueryData<MessagePages>(["messages", conversationId], (old) =>
+        removeCachedMessage(old, event.messageId)
+      );
+      if (userId) {
+        removeFromIndex(userId, [event.messageId]).catch((e) => console.error("Failed to update search index:", e));
+      }
+      return;
+    }
+
+    if (event.type === "conversation:cleared" && event.conversationId === conversationId) {
+      queryClient.resetQueries({ queryKey: ["messages", conversationId] });
+      return;
+    }
+
+    if (event.type !== "message:new" || event.message.conversationId !== conversationId) return;
+
+    const queryKey = ["messages", conversationId];
+    const latestSeq = getLatestSeq(queryClient.getQueryData<MessagePages>(queryKey));
+
+    if (latestSeq > 0 && event.message.seq > latestSeq + 1) {
+      // Missed messages in between; the sync also picks up this one
+      syncNewMessages().catch((e) => console.error("Failed to backfill messages:", e));
+      return;
+    }
+
+    queryClient.setQueryData<MessagePages>(queryKey, (old) =>
+      mergeMessage(old, event.message as Message)
+    );
+  });
+
+  // Poll for the delta only while the socket is down
+  useEffect(() => {
+    if (isConnected || !conversationId || !query.isSuccess) return;
+
+    const timer = setInterval(() => {
+      syncNewMessages().catch((e) => console.error("Failed to sync messages:", e));
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isConnected, conversationId, query.isSuccess, syncNewMessages]);
+
+  // Catch up on anything missed while the socket was down. The delta only has
+  // new messages, so refetch the loaded pages to also pick up edits, deletions,
+  // hides and reactions.
+  const wasConnected = useRef(isConnected);
+  useEffect(() => {
+    if (isConnected && !wasConnected.current && query.isSuccess) {
+      queryClient
+        .invalidateQueries({ queryKey: ["messages", conversationId] })
+        .catch((e) => console.error("Failed to sync messages:", e));
+    }
+    wasConnected.current = isConnected;
+  }, [isConnected, conversationId, query.isSuccess, queryClient]);
 
+  // Decrypted messages by id and reaction emojis by ciphertext; start over when the keys change
+  const decryptedCache = useRef(new Map<string, DecryptedMessage>());
+  const reactionCache = useRef(new Map<string, string | null>());
   useEffect(() => {
+    decryptedCache.current.clear();
+    reactionCache.current.clear();
+  }, [messageCrypto]);
+
+  const [decryptedMessages, setDecryptedMessages] = useState<DecryptedMessage[]>([]);
+
+  // Queued messages that haven't reached the server yet
+  const outboxItems = useSyncExternalStore(subscribeOutbox, getOutboxItems);
+
+  // Decrypt only messages that aren't in the cache yet
+  useEffect(() => {
+    let cancelled = false;
+
     async function processMessages() {
-      if (!query.data || !myPrivateKey || !otherUserPublicKeyBase64) {
+      if (!query.data || !messageCrypto) {
         setDecryptedMessages([]);
         return;
       }
 
-      try {
-        const theirPublicKey = await importPublicKey(otherUserPublicKeyBase64);
-        const sharedKey = await deriveSharedKey(myPrivateKey, theirPublicKey);
-
-        const processed = await Promise.all(
-          query.data.map(async (msg) => {
-            try {
-              const decryptedContent = await decryptMessage(msg.content, msg.iv, sharedKey);
-              return { ...msg, decryptedContent, isDecrypted: true };
-            } catch (e) {
-              return { ...msg, decryptedContent: "[Decryption failed]", isDecrypted: false };
-            }
-          })
-        );
-        setDecryptedMessages(processed);
-      } catch (e) {
-        console.error("Failed to process messages:", e);
-      }
+      const cache = decryptedCache.current;
+
+      // Oldest page last in the cache, first on screen
+      const allMessages = [...query.data.pages].reverse().flatMap((page) => page.messages);
+
+      // Outbox items are shown after everything the server has. An item whose
+      // message already arrived (e.g. pushed before the send returned) is hidden.
+      const deliveredClientIds = new Set(allMessages.map((msg) => msg.clientId));
+      const pending: Message[] = outboxItems
+        .filter((item) => item.conversationId === conversationId)
+        .filter((item) => !deliveredClientIds.has(item.clientId))
+        .map((item) => ({
+          id: item.clientId,
+          conversationId: item.conversationId,
+          senderId: item.senderId,
+          type: "text" as const,
+          content: item.content,
+          iv: item.iv,
+          seq: 0,
+          clientId: item.clientId,
+          editedAt: null,
+          deletedAt: null,
+          expiresAt: null,
+          replyToId: item.replyToId ?? null,
+          replyTo: null,
+          reactions: [],
+          createdAt: item.createdAt,
+        }));
+
+      const decryptQuote = async (quoted: QuotedMessage): Promise<QuotePreview> => {
+        const preview = { id: quoted.id, senderId: quoted.senderId };
+        if (quoted.deletedAt) {
+          return { ...preview, content: "", isDeleted: true, isDecrypted: true };
+        }
+        try {
+          const content = previewText(decodeEnvelope(await messageCrypto.decrypt(quoted)).body);
+          return { ...preview, content, isDeleted: false, isDecrypted: true };
+        } catch (e) {
+          return { ...preview, content: "[Decryption failed]", isDeleted: false, isDecrypted: false };
+        }
+      };
+
+      const sources = [...allMessages, ...pending];
+      const processed = await Promise.all(
+        sources.map(async (msg) => {
+          const cached = cache.get(msg.id);
+          if (cached && cached.iv === msg.iv) return cached;
+
+          let result: DecryptedMessage;
+          if (msg.type === "system") {
+            // Server notice: plaintext, nothing to decrypt
+            result = { ...msg, decryptedContent: msg.content, isDecrypted: true };
+            cache.set(msg.id, result);
+            return result;
+          }
+          if (msg.deletedAt) {
+            // Tombstone: nothing left to decrypt
+            result = { ...msg, decryptedContent: "", isDecrypted: true };
+            cache.set(msg.id, result);
+            return result;
+          }
+          try {
+            const { body } = decodeEnvelope(await messageCrypto.decrypt(msg));
+            result = { ...msg, decryptedContent: previewText(body), body, isDecrypted: true };
+          } catch (e) {
+            result = { ...msg, decryptedContent: "[Decryption failed]", isDecrypted: false };
+          }
+          if (msg.replyTo) {
+            result.quote = await decryptQuote(msg.replyTo);
+          }
+          cache.set(msg.id, result);
+          return result;
+        })
+      );
+
+      // Quotes of loaded messages follow their edits and deletes, so take them
+      // from the list rather than the copy embedded in the reply
+      const byId = new Map(processed.map((msg) => [msg.id, msg]));
+      const withQuotes = processed.map((msg): DecryptedMessage => {
+        const original = msg.replyToId ? byId.get(msg.replyToId) : undefined;
+        if (!original || msg.deletedAt) return msg;
+        return {
+          ...msg,
+          quote: {
+            id: original.id,
+            senderId: original.senderId,
+            content: original.decryptedContent ?? "",
+            isDeleted: !!original.deletedAt,
+            isDecrypted: original.isDecrypted,
+          },
+        };
+      });
+
+      // Reactions change without the message changing, so they are decrypted separately
+      const withReactions = await Promise.all(
+        withQuotes.map(async (msg, index): Promise<DecryptedMessage> => {
+          const { reactions } = sources[index];
+          if (reactions.length === 0 && msg.reactions.length === 0) return msg;
+
+          const decrypted = await Promise.all(
+            reactions.map(async (reaction) => {
+              const key = `${msg.id}:${reaction.userId}:${reaction.iv}`;
+              if (!reactionCache.current.has(key)) {
+                try {
+                  const emoji = await messageCrypto.decrypt({ senderId: reaction.userId, ...reaction });
+                  reactionCache.current.set(key, emoji);
+                } catch (e) {
+                  reactionCache.current.set(key, null);
+                }
+              }
+              const emoji = reactionCache.current.get(key);
+              return emoji ? { userId: reaction.userId, emoji } : null;
+            })
+          );
+
+          return {
+            ...msg,
+            reactions,
+            decryptedReactions: decrypted.filter((r): r is { userId: string; emoji: string } => !!r),
+          };
+        })
+      );
+
+      // Outbox status changes without the ciphertext changing, so apply it after the cache
+      const statuses = new Map(outboxItems.map((item) => [item.clientId, item.status]));
+      const withStatus = withReactions.map((msg) =>
+        statuses.has(msg.id) ? { ...msg, status: statuses.get(msg.id) } : msg
+      );
+
+      if (!cancelled) setDecryptedMessages(withStatus);
     }
 
     processMessages();
-  }, [query.data, myPrivateKey, otherUserPublicKeyBase64]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query.data, messageCrypto, outboxItems, conversationId]);
+
+  // Keep the local search index in step with what was decrypted
+  useEffect(() => {
+    if (!userId) return;
+
+    const entries: IndexEntry[] = [];
+    const removed: string[] = [];
+    decryptedMessages
+      .filter((msg) => !msg.status && msg.type === "text") // Not still in the outbox
+      .forEach((msg) => {
+        if (msg.deletedAt || msg.expiresAt || msg.body?.type === "unsupported") {
+          removed.push(msg.id);
+        } else if (msg.body) {
+          entries.push({
+            messageId: msg.id,
+            conversationId: msg.conversationId,
+            senderId: msg.senderId,
+            text: msg.decryptedContent ?? "",
+            createdAt: msg.createdAt,
+            version: msg.iv,
+          });
+        }
+      });
+
+    Promise.all([indexMessages(userId, entries), removeFromIndex(userId, removed)]).catch((e) =>
+      console.error("Failed to update search index:", e)
+    );
+  }, [decryptedMessages, userId]);
+
+  // Disappearing messages vanish at expiry, without waiting for the server to purge them
+  const [now, setNow] = useState(() => Date.now());
+  const visibleMessages = useMemo(
+    () =>
+      decryptedMessages.filter((msg) => !msg.expiresAt || new Date(msg.expiresAt).getTime() > now),
+    [decryptedMessages, now]
+  );
+
+  useEffect(() => {
+    const expiries = visibleMessages
+      .filter((msg) => msg.expiresAt)
+      .map((msg) => new Date(msg.expiresAt!).getTime());
+    if (expiries.length === 0) return;
+
+    const wait = Math.min(Math.min(...expiries) - Date.now(), MAX_EXPIRY_WAIT_MS);
+    const timer = setTimeout(() => setNow(Date.now()), Math.max(wait, 0));
+    return () => clearTimeout(timer);
+  }, [visibleMessages]);
 
   return {
     ...query,
-    messages: decryptedMessages,
+    messages: visibleMessages,
   };
 }
 
 // ============================================
-// useSendMessage - Send encrypted message
+// useSendMessage - Encrypt and queue a message in the outbox
 // ============================================
-export function useSendMessage(
-  conversationId: string,
-  myPrivateKey: CryptoKey | null,
-  otherUserPublicKeyBase64: string | null
-) {
-  const queryClient = useQueryClient();
+export function useSendMessage(conversationId: string, messageCrypto: MessageCrypto | null) {
+  const { data: user } = useUser();
 
   return useMutation({
-    mutationFn: async (plaintext: string) => {
-      if (!myPrivateKey || !otherUserPublicKeyBase64) {
+    mutationFn: async ({ body, replyToId }: { body: OutgoingBody; replyToId?: string }) => {
+      if (!messageCrypto?.canEncrypt || !user) {
         throw new Error("Encryption keys not ready");
       }
 
-      // Derive shared key
-      const theirPublicKey = await importPublicKey(otherUserPublicKeyBase64);
-      const sharedKey = await deriveSharedKey(myPrivateKey, theirPublicKey);
+      const { content, iv } = await messageCrypto.encrypt(encodeEnvelope(body, { replyToId }));
+
+      // Shown immediately as "sending"; the outbox delivers it
+      return enqueueMessage({
+        clientId: crypto.randomUUID(),
+        conversationId,
+        senderId: user.id,
+        content,
+        iv,
+        replyToId,
+        attachmentId: body.type === "attachment" ? body.attachment.id : undefined,
+        createdAt: new Date().toISOString(),
+      });
+    },
+  });
+}
 
-      // Encrypt message
-      const { ciphertext, iv } = await encryptMessage(plaintext, sharedKey);
+// ============================================
+// useRetryMessage - Resend failed messages, re-encrypted if the group key moved on
+// ============================================
+export function useRetryMessage(conversationId: string, messageCrypto: MessageCrypto | null) {
+  const outboxItems = useSyncExternalStore(subscribeOutbox, getOutboxItems);
+
+  // The server only accepts the current generation, so messages queued before a
+  // membership change can't be sent as they are; my own older keys still decrypt them
+  const retry = useCallback(
+    async (clientId: string) => {
+      const item = getOutboxItems().find((i) => i.clientId === clientId);
+      if (!item) return;
+
+      const generation = parseGroupContent(item.content)?.generation;
+      if (!messageCrypto?.canEncrypt || generation === undefined || generation === messageCrypto.generation) {
+        retryMessage(clientId);
+        return;
+      }
 
-      // Send to server
-      const res = await fetch(buildUrl(api.messages.create.path, { id: conversationId }), {
-        method: api.messages.create.method,
+      try {
+        retryMessage(clientId, await messageCrypto.encrypt(await messageCrypto.decrypt(item)));
+      } catch (e) {
+        console.error("Failed to re-encrypt message:", e);
+        retryMessage(clientId);
+      }
+    },
+    [messageCrypto]
+  );
+
+  // Resend on their own the ones that failed only because of the old generation (once each)
+  const resent = useRef(new Set<string>());
+  useEffect(() => {
+    if (!messageCrypto?.canEncrypt || messageCrypto.generation === null) return;
+
+    outboxItems
+      .filter((item) => item.conversationId === conversationId && item.status === "failed")
+      .filter((item) => !resent.current.has(item.clientId))
+      .filter((item) => {
+        const generation = parseGroupContent(item.content)?.generation;
+        return generation !== undefined && generation < messageCrypto.generation!;
+      })
+      .forEach((item) => {
+        resent.current.add(item.clientId);
+        retry(item.clientId);
+      });
+  }, [outboxItems, conversationId, messageCrypto, retry]);
+
+  return retry;
+}
+
+// ============================================
+// useEditMessage - Re-encrypt and replace one of my messages
+// ============================================
+export function useEditMessage(conversationId: string, messageCrypto: MessageCrypto | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ messageId, text }: { messageId: string; text: string }) => {
+      if (!messageCrypto?.canEncrypt) {
+        throw new Error("Encryption keys not ready");
+      }
+
+      const { content, iv } = await messageCrypto.encrypt(encodeEnvelope({ type: "text", text }));
+
+      const res = await fetch(buildUrl(api.messages.edit.path, { id: conversationId, messageId }), {
+        method: api.messages.edit.method,
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ content: ciphertext, iv }),
+        body: JSON.stringify({ content, iv }),
       });
+      if (!res.ok) throw new Error("Failed to edit message");
+      return res.json() as Promise<Message>;
+    },
+    onSuccess: (message) => {
+      queryClient.setQueryData<MessagePages>(["messages", conversationId], (old) =>
+        replaceMessage(old, message)
+      );
+      queryClient.invalidateQueries({ queryKey: ["revisions", message.id] });
+    },
+  });
+}
 
-      if (!res.ok) throw new Error("Failed to send message");
-      return res.json();
+// ============================================
+// useReactToMessage - Set or clear my (encrypted) reaction on a message
+// ============================================
+export function useReactToMessage(conversationId: string, messageCrypto: MessageCrypto | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ messageId, emoji }: { messageId: string; emoji: string | null }) => {
+      const url = buildUrl(api.messages.react.path, { id: conversationId, messageId });
+
+      let res: Response;
+      if (emoji === null) {
+        res = await fetch(url, { method: api.messages.unreact.method });
+      } else {
+        if (!messageCrypto?.canEncrypt) {
+          throw new Error("Encryption keys not ready");
+        }
+        const { content, iv } = await messageCrypto.encrypt(emoji);
+        res = await fetch(url, {
+          method: api.messages.react.method,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ content, iv }),
+        });
+      }
+
+      if (!res.ok) throw new Error("Failed to update reaction");
+      return { messageId, reactions: (await res.json()) as Reaction[] };
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["messages", conversationId] });
+    onSuccess: ({ messageId, reactions }) => {
+      queryClient.setQueryData<MessagePages>(["messages", conversationId], (old) =>
+        setCachedReactions(old, messageId, reactions)
+      );
+    },
+  });
+}
+
+// ============================================
+// useDeleteMessage - Delete a message for me or for everyone
+// ============================================
+export function useDeleteMessage(conversationId: string) {
+  const queryClient = useQueryClient();
+  const { data: user } = useUser();
+
+  return useMutation({
+    mutationFn: async ({ messageId, scope }: { messageId: string; scope: "me" | "everyone" }) => {
+      const route = scope === "everyone" ? api.messages.delete : api.messages.hide;
+      const res = await fetch(buildUrl(route.path, { id: conversationId, messageId }), {
+        method: route.method,
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to delete message");
+      }
+      return scope === "everyone" ? ((await res.json()) as Message) : null;
+    },
+    onSuccess: (tombstone, { messageId }) => {
+      queryClient.setQueryData<MessagePages>(["messages", conversationId], (old) =>
+        tombstone ? replaceMessage(old, tombstone) : removeCachedMessage(old, messageId)
+      );
+      if (user) {
+        removeFromIndex(user.id, [messageId]).catch((e) => console.error("Failed to update search index:", e));
+      }
+      queryClient.invalidateQueries({ queryKey: ["conversations"], exact: true });
+    },
+  });
+}
+
+// ============================================
+// useMessageRevisions - Decrypted earlier versions of an edited message
+// ============================================
+export function useMessageRevisions(
+  conversationId: string,
+  messageId: string | null,
+  messageCrypto: MessageCrypto | null
+) {
+  return useQuery({
+    queryKey: ["revisions", messageId],
+    queryFn: async () => {
+      const res = await fetch(
+        buildUrl(api.messages.revisions.path, { id: conversationId, messageId: messageId! })
+      );
+      if (!res.ok) throw new Error("Failed to fetch message history");
+      const revisions = (await res.json()) as MessageRevision[];
+
+      return Promise.all(
+        revisions.map(async (revision): Promise<DecryptedRevision> => {
+          try {
+            const { body } = decodeEnvelope(await messageCrypto!.decrypt(revision));
+            const decryptedContent = previewText(body);
+            return { ...revision, decryptedContent, isDecrypted: true };
+          } catch (e) {
+            return { ...revision, decryptedContent: "[Decryption failed]", isDecrypted: false };
+          }
+        })
+      );
+    },
+    enabled: !!conversationId && !!messageId && !!messageCrypto,
+  });
+}
+
+// ============================================
+// useMessageSearch - Search decrypted history on this device
+// ============================================
+export function useMessageSearch(query: string, conversationId?: string) {
+  const { data: user } = useUser();
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: ["message-search", user?.id, conversationId ?? null, trimmed],
+    queryFn: () => searchMessages(user!.id, trimmed, conversationId),
+    enabled: !!user && trimmed.length >= MIN_SEARCH_LENGTH,
+    placeholderData: keepPreviousData, // No flicker while typing
+    staleTime: 0,
+  });
+}
+
+// ============================================
+// useExportConversation - Decrypt the full history into a downloadable file
+// ============================================
+export function useExportConversation(
+  conversation: ConversationDetail | undefined,
+  messageCrypto: MessageCrypto | null
+) {
+  const { data: user } = useUser();
+  const [progress, setProgress] = useState(0); // Messages fetched so far
+
+  const mutation = useMutation({
+    mutationFn: async ({ format, passphrase }: { format: ExportFormat; passphrase?: string }) => {
+      if (!conversation || !user || !messageCrypto) throw new Error("This conversation can't be decrypted yet");
+      setProgress(0);
+
+      const others = conversation.otherUser ? [conversation.otherUser] : conversation.members;
+      const participants = [user, ...others.filter((p) => p.id !== user.id)].map((p) => ({
+        id: p.id,
+        name: p.name || "Unknown",
+      }));
+
+      const { blob, filename } = await exportConversation(
+        {
+          conversation: {
+            id: conversation.id,
+            title: (conversation.isGroup ? conversation.name : conversation.otherUser?.name) || "Conversation",
+            isGroup: conversation.isGroup,
+          },
+          participants,
+          decrypt: messageCrypto.decrypt,
+        },
+        format,
+        { passphrase, onProgress: setProgress }
+      );
+      saveFile(blob, filename);
+    },
+  });
+
+  return { ...mutation, progress };
+}
+
+// ============================================
+// useOutboxSender - Deliver queued messages while logged in
+// ============================================
+export function useOutboxSender() {
+  const queryClient = useQueryClient();
+  const { data: user } = useUser();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const stop = startOutbox(user.id);
+    const unsubscribe = onMessageSent((item, message) => {
+      queryClient.setQueryData<MessagePages>(["messages", item.conversationId], (old) =>
+        mergeMessage(old, message as Message)
+      );
       queryClient.invalidateQueries({ queryKey: ["conversations"] });
+    });
+
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, [user?.id, queryClient]);
+}
+
+// ============================================
+// useTyping - Send and receive typing indicators
+// ============================================
+export function useTyping(conversationId: string) {
+  const [typingUserId, setTypingUserId] = useState<string | null>(null);
+  const lastSentAt = useRef(0);
+  const idleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useRealtimeEvent((event) => {
+    if (event.type === "typing" && event.conversationId === conversationId) {
+      setTypingUserId((current) =>
+        event.isTyping ? event.userId : current === event.userId ? null : current
+      );
+    } else if (event.type === "message:new" && event.message.conversationId === conversationId) {
+      // The reply arrived, so its sender has stopped typing
+      setTypingUserId((current) => (current === event.message.senderId ? null : current));
+    }
+  });
+
+  const stopTyping = useCallback(() => {
+    if (idleTimer.current) {
+      clearTimeout(idleTimer.current);
+      idleTimer.current = null;
+    }
+    if (lastSentAt.current) {
+      lastSentAt.current = 0;
+      sendEvent({ type: "typing", conversationId, isTyping: false });
+    }
+  }, [conversationId]);
+
+  // Call on every keystroke; start is throttled and stop fires after idling
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastSentAt.current > TYPING_REFRESH_MS) {
+      if (sendEvent({ type: "typing", conversationId, isTyping: true })) {
+        lastSentAt.current = now;
+      }
+    }
+
+    if (idleTimer.current) clearTimeout(idleTimer.current);
+    idleTimer.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [conversationId, stopTyping]);
+
+  // Stop when leaving the conversation
+  useEffect(() => {
+    setTypingUserId(null);
+    return stopTyping;
+  }, [stopTyping]);
+
+  return { isPeerTyping: typingUserId !== null, typingUserId, notifyTyping, stopTyping };
+}
+
+// ============================================
+// useReceipts - Track peers' cursors and acknowledge incoming messages
+// ============================================
+export function useReceipts(
+  conversationId: string,
+  currentUserId: string | undefined,
+  messages: { id: string; senderId: string }[]
+) {
+  const queryClient = useQueryClient();
+  const isFocused = useIsFocused();
+
+  const query = useQuery({
+    queryKey: ["receipts", conversationId],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.receipts.list.path, { id: conversationId }));
+      if (!res.ok) throw new Error("Failed to fetch receipts");
+      return res.json() as Promise<Receipt[]>;
     },
+    enabled: !!conversationId,
   });
+
+  useRealtimeEvent((event) => {
+    if (event.type !== "receipt" || event.conversationId !== conversationId) return;
+    if (event.receipt.userId === currentUserId) return;
+
+    const receipt = event.receipt as Receipt;
+    queryClient.setQueryData<Receipt[]>(["receipts", conversationId], (old = []) => [
+      ...old.filter((r) => r.userId !== receipt.userId),
+      receipt,
+    ]);
+  });
+
+  // Mark the newest incoming message delivered, or read while focused
+  const acked = useRef<{ conversationId: string; delivered?: string; read?: string }>({
+    conversationId,
+  });
+  const latestIncoming = [...messages].reverse().find((m) => m.senderId !== currentUserId);
+
+  useEffect(() => {
+    if (!latestIncoming || !currentUserId) return;
+    if (acked.current.conversationId !== conversationId) {
+      acked.current = { conversationId };
+    }
+
+    const status = isFocused ? "read" : "delivered";
+    if (acked.current[status] === latestIncoming.id) return;
+
+    acked.current[status] = latestIncoming.id;
+    if (status === "read") acked.current.delivered = latestIncoming.id;
+
+    postReceipt(conversationId, latestIncoming.id, status)
+      .then(() => {
+        if (status === "read") {
+          queryClient.invalidateQueries({ queryKey: ["unread"] });
+          queryClient.invalidateQueries({ queryKey: ["conversations"], exact: true });
+        }
+      })
+      .catch((e) => {
+        console.error("Failed to send receipt:", e);
+      });
+  }, [conversationId, currentUserId, latestIncoming?.id, isFocused]);
+
+  return query.data ?? [];
 }
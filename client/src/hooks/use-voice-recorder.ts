@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Longer recordings stop (and send) on their own
+const MAX_RECORDING_MS = 5 * 60 * 1000;
+// Shorter ones are treated as an accidental tap
+const MIN_RECORDING_MS = 500;
+
+interface Recording {
+  blob: Blob;
+  durationMs: number;
+}
+
+// ============================================
+// useVoiceRecorder - Record audio from the microphone with MediaRecorder
+// ============================================
+export function useVoiceRecorder(onRecorded: (recording: Recording) => void) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const startedAt = useRef(0);
+  const discard = useRef(false);
+  // Released before the microphone was ready (e.g. during the permission prompt)
+  const stopRequested = useRef(false);
+
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  const start = useCallback(async () => {
+    if (recorderRef.current) return;
+    setError(null);
+    stopRequested.current = false;
+    discard.current = false;
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (e) {
+      setError("Microphone access is needed to record voice messages");
+      return;
+    }
+
+    if (stopRequested.current) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+      setIsRecording(false);
+
+      const durationMs = Date.now() - startedAt.current;
+      if (discard.current || durationMs < MIN_RECORDING_MS) return;
+      onRecordedRef.current({ blob: new Blob(chunks, { type: recorder.mimeType }), durationMs });
+    };
+
+    recorderRef.current = recorder;
+    startedAt.current = Date.now();
+    recorder.start();
+    setElapsedMs(0);
+    setIsRecording(true);
+  }, []);
+
+  const stop = useCallback(() => {
+    stopRequested.current = true;
+    if (recorderRef.current?.state === "recording") recorderRef.current.stop();
+  }, []);
+
+  const cancel = useCallback(() => {
+    discard.current = true;
+    stop();
+  }, [stop]);
+
+  // Tick the timer and enforce the maximum length
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const timer = setInterval(() => {
+      const elapsed = Date.now() - startedAt.current;
+      setElapsedMs(elapsed);
+      if (elapsed >= MAX_RECORDING_MS) stop();
+    }, 200);
+    return () => clearInterval(timer);
+  }, [isRecording, stop]);
+
+  // Leaving the chat mid-recording throws the recording away
+  useEffect(() => cancel, [cancel]);
+
+  return { isRecording, elapsedMs, error, start, stop, cancel };
+}
@@ -0,0 +1,116 @@
+/**
+ * Encrypted attachments
+ *
+ * - Each file is encrypted with its own random key before upload
+ * - The server stores only ciphertext; key, digest and metadata go in the message
+ * - Images get a small thumbnail inside the message, the full file is fetched on demand
+ */
+
+import { api, buildUrl } from "@shared/routes";
+import type { AttachmentUpload } from "@shared/schema";
+import { encryptFile, decryptFile } from "@/lib/crypto";
+import type { Attachment } from "@/lib/message-body";
+
+const THUMBNAIL_MAX_PX = 320;
+const THUMBNAIL_QUALITY = 0.7;
+
+// "12.3 MB"
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// ============================================
+// Upload
+// ============================================
+
+/**
+ * Encrypt and upload a file. onProgress receives 0..1 while the ciphertext uploads.
+ */
+export async function uploadAttachment(
+  conversationId: string,
+  file: File,
+  onProgress: (progress: number) => void
+): Promise<Attachment> {
+  const [{ ciphertext, key, iv, digest }, thumbnail] = await Promise.all([
+    file.arrayBuffer().then(encryptFile),
+    file.type.startsWith("image/") ? createThumbnail(file) : null,
+  ]);
+
+  const { id } = await sendCiphertext(conversationId, ciphertext, onProgress);
+
+  return {
+    id,
+    key,
+    iv,
+    digest,
+    name: file.name,
+    mimeType: file.type || "application/octet-stream",
+    size: file.size,
+    ...thumbnail,
+  };
+}
+
+// fetch() can't report upload progress, so this uses XMLHttpRequest
+function sendCiphertext(
+  conversationId: string,
+  ciphertext: ArrayBuffer,
+  onProgress: (progress: number) => void
+): Promise<AttachmentUpload> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(api.attachments.upload.method, buildUrl(api.attachments.upload.path, { id: conversationId }));
+    xhr.setRequestHeader("Content-Type", "application/octet-stream");
+    xhr.responseType = "json";
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.response as AttachmentUpload);
+      } else {
+        reject(new Error(xhr.response?.message || "Failed to upload attachment"));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Failed to upload attachment"));
+
+    xhr.send(ciphertext);
+  });
+}
+
+// Downscaled JPEG preview, small enough to travel inside the message
+async function createThumbnail(file: File) {
+  try {
+    const image = await createImageBitmap(file);
+    const { width, height } = image;
+    const scale = Math.min(1, THUMBNAIL_MAX_PX / Math.max(width, height));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    canvas.getContext("2d")?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    image.close();
+
+    return { thumbnail: canvas.toDataURL("image/jpeg", THUMBNAIL_QUALITY), width, height };
+  } catch (e) {
+    console.error("Failed to create thumbnail:", e);
+    return null; // Sent without a preview
+  }
+}
+
+// ============================================
+// Download
+// ============================================
+
+/**
+ * Fetch, verify and decrypt an attachment
+ */
+export async function downloadAttachment(attachment: Attachment): Promise<Blob> {
+  const res = await fetch(buildUrl(api.attachments.download.path, { id: attachment.id }));
+  if (!res.ok) throw new Error("Failed to download attachment");
+
+  const data = await decryptFile(await res.arrayBuffer(), attachment);
+  return new Blob([data], { type: attachment.mimeType });
+}
@@ -6,6 +6,10 @@
  * 2. Public key is uploaded to server, private key stays in localStorage
  * 3. To encrypt: derive shared secret from your private key + recipient's public key
  * 4. Use derived key for AES-GCM encryption
+ *
+ * Groups use sender keys instead: each member creates a random chain key, shares it
+ * with every member encrypted under the pairwise key from step 3, and encrypts their
+ * group messages with an AES key derived from it (see lib/sender-keys.ts).
  */
 
 const ALGORITHM = "AES-GCM";
@@ -106,6 +110,47 @@ export async function deriveSharedKey(
   );
 }
 
+// ============================================
+// Group Sender Keys
+// ============================================
+
+/**
+ * Generate a random chain key for a group (base64, shared with members encrypted)
+ */
+export function generateChainKey(): string {
+  const bytes = window.crypto.getRandomValues(new Uint8Array(32));
+  return arrayBufferToBase64(bytes.buffer as ArrayBuffer);
+}
+
+/**
+ * Derive the AES key for a sender's group messages from their chain key
+ */
+export async function deriveSenderKey(chainKeyBase64: string): Promise<CryptoKey> {
+  const chainKey = await window.crypto.subtle.importKey(
+    "raw",
+    base64ToArrayBuffer(chainKeyBase64),
+    "HKDF",
+    false,
+    ["deriveKey"]
+  );
+
+  return window.crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(32),
+      info: new TextEncoder().encode("securechat-sender-key"),
+    },
+    chainKey,
+    {
+      name: ALGORITHM,
+      length: KEY_LENGTH,
+    },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
 // ============================================
 // Encryption / Decryption
 // ============================================
@@ -163,6 +208,125 @@ export async function decryptMessage(
   }
 }
 
+// ============================================
+// File Encryption
+// ============================================
+
+/**
+ * Encrypt a file with a fresh random AES-GCM key. The key, IV and SHA-256
+ * digest of the ciphertext are sent inside the encrypted message.
+ */
+export async function encryptFile(
+  data: ArrayBuffer
+): Promise<{ ciphertext: ArrayBuffer; key: string; iv: string; digest: string }> {
+  const key = await window.crypto.subtle.generateKey(
+    {
+      name: ALGORITHM,
+      length: KEY_LENGTH,
+    },
+    true,
+    ["encrypt", "decrypt"]
+  );
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+
+  const ciphertext = await window.crypto.subtle.encrypt({ name: ALGORITHM, iv }, key, data);
+  const digest = await window.crypto.subtle.digest("SHA-256", ciphertext);
+
+  return {
+    ciphertext,
+    key: arrayBufferToBase64(await window.crypto.subtle.exportKey("raw", key)),
+    iv: arrayBufferToBase64(iv.buffer as ArrayBuffer),
+    digest: arrayBufferToBase64(digest),
+  };
+}
+
+/**
+ * Verify a downloaded file against its digest, then decrypt it
+ */
+export async function decryptFile(
+  ciphertext: ArrayBuffer,
+  file: { key: string; iv: string; digest: string }
+): Promise<ArrayBuffer> {
+  const digest = arrayBufferToBase64(await window.crypto.subtle.digest("SHA-256", ciphertext));
+  if (digest !== file.digest) {
+    throw new Error("Attachment does not match its digest");
+  }
+
+  const key = await window.crypto.subtle.importKey(
+    "raw",
+    base64ToArrayBuffer(file.key),
+    ALGORITHM,
+    false,
+    ["decrypt"]
+  );
+
+  try {
+    return await window.crypto.subtle.decrypt(
+      { name: ALGORITHM, iv: base64ToArrayBuffer(file.iv) },
+      key,
+      ciphertext
+    );
+  } catch (e) {
+    console.error("Decryption failed:", e);
+    throw new Error("Failed to decrypt attachment");
+  }
+}
+
+// ============================================
+// Passphrase Encryption
+// ============================================
+
+// PBKDF2-SHA256 rounds for new archives; stored alongside so it can be raised later
+const PASSPHRASE_ITERATIONS = 600000;
+
+async function derivePassphraseKey(
+  passphrase: string,
+  salt: ArrayBuffer,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await window.crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+
+  return window.crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: ALGORITHM, length: KEY_LENGTH },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * Encrypt text with a key derived from a passphrase (used for exported
+ * archives). Everything except the passphrase is returned with the ciphertext.
+ */
+export async function encryptWithPassphrase(
+  plaintext: string,
+  passphrase: string
+): Promise<{ ciphertext: string; iv: string; salt: string; iterations: number }> {
+  const salt = window.crypto.getRandomValues(new Uint8Array(16));
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const key = await derivePassphraseKey(passphrase, salt.buffer as ArrayBuffer, PASSPHRASE_ITERATIONS);
+
+  const ciphertext = await window.crypto.subtle.encrypt(
+    { name: ALGORITHM, iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return {
+    ciphertext: arrayBufferToBase64(ciphertext),
+    iv: arrayBufferToBase64(iv.buffer as ArrayBuffer),
+    salt: arrayBufferToBase64(salt.buffer as ArrayBuffer),
+    iterations: PASSPHRASE_ITERATIONS,
+  };
+}
+
 // ============================================
 // Local Storage Helpers
 // ============================================
@@ -0,0 +1,311 @@
+/**
+ * Conversation export
+ *
+ * The server only has ciphertext, so exports are built entirely on this device:
+ * - The full visible history is paged in from the messages API and decrypted locally
+ * - Saved as a readable HTML or JSON transcript, or as a JSON transcript sealed
+ *   with a passphrase (PBKDF2 + AES-GCM) for safekeeping
+ * - Attachments are described (name, type, size) but their files and keys are not included
+ * - Disappearing messages are left out, like in search
+ */
+
+import { format } from "date-fns";
+import { api, buildUrl } from "@shared/routes";
+import { parseSystemNotice, type Message, type MessagePage } from "@shared/schema";
+import { formatTimer } from "@/components/DisappearingTimer";
+import { formatBytes } from "@/lib/attachments";
+import { encryptWithPassphrase } from "@/lib/crypto";
+import { decodeEnvelope, previewText } from "@/lib/message-body";
+
+export type ExportFormat = "html" | "json" | "encrypted";
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const TRANSCRIPT_VERSION = 1;
+
+export interface ExportSource {
+  conversation: { id: string; title: string; isGroup: boolean };
+  participants: { id: string; name: string }[];
+  decrypt: (message: { senderId: string; content: string; iv: string }) => Promise<string>;
+}
+
+interface TranscriptMessage {
+  id: string;
+  senderId: string;
+  senderName: string;
+  createdAt: string;
+  editedAt: string | null;
+  type: "text" | "attachment" | "system" | "deleted" | "unsupported" | "undecryptable";
+  text?: string;
+  attachment?: {
+    name: string;
+    mimeType: string;
+    size: number;
+    width?: number;
+    height?: number;
+    duration?: number; // Voice notes, in seconds
+  };
+  replyToId: string | null;
+  reactions: { senderId: string; senderName: string; emoji: string }[];
+}
+
+interface Transcript {
+  format: "securechat-transcript";
+  version: number;
+  exportedAt: string;
+  conversation: ExportSource["conversation"];
+  participants: ExportSource["participants"];
+  messages: TranscriptMessage[];
+}
+
+// ============================================
+// History
+// ============================================
+
+/**
+ * Every message this user can see, oldest first
+ */
+async function fetchHistory(conversationId: string, onProgress?: (count: number) => void): Promise<Message[]> {
+  const url = buildUrl(api.messages.list.path, { id: conversationId });
+  const pages: Message[][] = [];
+  let count = 0;
+  let cursor: string | null = null;
+
+  do {
+    const res = await fetch(cursor ? `${url}?cursor=${encodeURIComponent(cursor)}` : url);
+    if (!res.ok) throw new Error("Failed to fetch messages");
+
+    const page = (await res.json()) as MessagePage;
+    pages.unshift(page.messages);
+    count += page.messages.length;
+    onProgress?.(count);
+    cursor = page.hasMore ? page.nextCursor : null;
+  } while (cursor);
+
+  return pages.flat();
+}
+
+function toIso(date: string | Date) {
+  return new Date(date).toISOString();
+}
+
+async function toTranscriptMessage(
+  msg: Message,
+  source: ExportSource,
+  nameOf: (userId: string) => string
+): Promise<TranscriptMessage> {
+  const reactions = await Promise.all(
+    msg.reactions.map(async (reaction) => {
+      try {
+        const emoji = await source.decrypt({ senderId: reaction.userId, ...reaction });
+        return { senderId: reaction.userId, senderName: nameOf(reaction.userId), emoji };
+      } catch (e) {
+        return null;
+      }
+    })
+  );
+
+  const base = {
+    id: msg.id,
+    senderId: msg.senderId,
+    senderName: nameOf(msg.senderId),
+    createdAt: toIso(msg.createdAt),
+    editedAt: msg.editedAt ? toIso(msg.editedAt) : null,
+    replyToId: msg.replyToId,
+    reactions: reactions.filter((r): r is TranscriptMessage["reactions"][number] => !!r),
+  };
+
+  if (msg.type === "system") {
+    const notice = parseSystemNotice(msg.content);
+    const text = !notice
+      ? "Unsupported notice"
+      : notice.seconds
+        ? `${base.senderName} set disappearing messages to ${formatTimer(notice.seconds)}`
+        : `${base.senderName} turned off disappearing messages`;
+    return { ...base, type: "system", text };
+  }
+  if (msg.deletedAt) return { ...base, type: "deleted" };
+
+  let plaintext: string;
+  try {
+    plaintext = await source.decrypt(msg);
+  } catch (e) {
+    return { ...base, type: "undecryptable" };
+  }
+
+  const { body } = decodeEnvelope(plaintext);
+  if (body.type === "text") return { ...base, type: "text", text: body.text };
+  if (body.type === "unsupported") return { ...base, type: "unsupported" };
+
+  const { name, mimeType, size, width, height, voice } = body.attachment;
+  return {
+    ...base,
+    type: "attachment",
+    text: previewText(body),
+    attachment: { name, mimeType, size, width, height, duration: voice?.duration },
+  };
+}
+
+async function buildTranscript(source: ExportSource, onProgress?: (count: number) => void): Promise<Transcript> {
+  const history = await fetchHistory(source.conversation.id, onProgress);
+  const names = new Map(source.participants.map((p) => [p.id, p.name]));
+  const nameOf = (userId: string) => names.get(userId) ?? "Unknown";
+
+  const messages = await Promise.all(
+    history.filter((msg) => !msg.expiresAt).map((msg) => toTranscriptMessage(msg, source, nameOf))
+  );
+
+  return {
+    format: "securechat-transcript",
+    version: TRANSCRIPT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: source.conversation,
+    participants: source.participants,
+    messages,
+  };
+}
+
+// ============================================
+// Formats
+// ============================================
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function describeBody(msg: TranscriptMessage) {
+  switch (msg.type) {
+    case "deleted":
+      return "This message was deleted";
+    case "unsupported":
+      return "This message isn't supported by this version of the app";
+    case "undecryptable":
+      return "This message couldn't be decrypted";
+    case "attachment": {
+      const { name, size } = msg.attachment!;
+      return `${msg.text} (${name}, ${formatBytes(size)})`;
+    }
+    default:
+      return msg.text ?? "";
+  }
+}
+
+function renderHtml(transcript: Transcript) {
+  const byId = new Map(transcript.messages.map((msg) => [msg.id, msg]));
+
+  const rows = transcript.messages.map((msg) => {
+    const time = format(new Date(msg.createdAt), "PPpp");
+    if (msg.type === "system") {
+      return `<div class="notice">${escapeHtml(describeBody(msg))} · ${escapeHtml(time)}</div>`;
+    }
+
+    const quoted = msg.replyToId ? byId.get(msg.replyToId) : undefined;
+    const quote = quoted
+      ? `<div class="quote">${escapeHtml(quoted.senderName)}: ${escapeHtml(describeBody(quoted))}</div>`
+      : "";
+    const reactions = msg.reactions.length
+      ? `<div class="reactions">${msg.reactions
+          .map((r) => `${escapeHtml(r.emoji)} ${escapeHtml(r.senderName)}`)
+          .join(", ")}</div>`
+      : "";
+    const edited = msg.editedAt ? " · edited" : "";
+    const bodyClass = msg.type === "text" ? "body" : "body muted";
+
+    return `<div class="message">
+  <div class="meta"><strong>${escapeHtml(msg.senderName)}</strong> · ${escapeHtml(time)}${edited}</div>
+  ${quote}<div class="${bodyClass}">${escapeHtml(describeBody(msg))}</div>${reactions}
+</div>`;
+  });
+
+  const title = escapeHtml(transcript.conversation.title);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; color: #1a1a1a; }
+  header { border-bottom: 1px solid #ddd; margin-bottom: 1rem; }
+  .message { margin: 0 0 1rem; }
+  .meta { font-size: 0.8rem; color: #666; }
+  .body { white-space: pre-wrap; overflow-wrap: anywhere; }
+  .muted { font-style: italic; color: #666; }
+  .quote { border-left: 3px solid #ccc; padding-left: 0.5rem; font-size: 0.85rem; color: #555; }
+  .reactions { font-size: 0.8rem; color: #666; }
+  .notice { text-align: center; font-size: 0.8rem; color: #666; margin: 1rem 0; }
+</style>
+</head>
+<body>
+<header>
+  <h1>${title}</h1>
+  <p>${escapeHtml(transcript.participants.map((p) => p.name).join(", "))}</p>
+  <p>Exported ${escapeHtml(format(new Date(transcript.exportedAt), "PPpp"))} · ${transcript.messages.length} messages</p>
+</header>
+${rows.join("\n")}
+</body>
+</html>
+`;
+}
+
+// "chat-alice-2024-03-04"
+function baseFilename(title: string) {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  return `chat-${slug || "export"}-${format(new Date(), "yyyy-MM-dd")}`;
+}
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Fetch, decrypt and package a conversation. Encrypted exports need a passphrase.
+ */
+export async function exportConversation(
+  source: ExportSource,
+  exportFormat: ExportFormat,
+  options: { passphrase?: string; onProgress?: (count: number) => void } = {}
+): Promise<{ blob: Blob; filename: string }> {
+  if (exportFormat === "encrypted" && (options.passphrase ?? "").length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const transcript = await buildTranscript(source, options.onProgress);
+  const filename = baseFilename(source.conversation.title);
+
+  if (exportFormat === "html") {
+    return { blob: new Blob([renderHtml(transcript)], { type: "text/html" }), filename: `${filename}.html` };
+  }
+
+  const json = JSON.stringify(transcript, null, 2);
+  if (exportFormat === "json") {
+    return { blob: new Blob([json], { type: "application/json" }), filename: `${filename}.json` };
+  }
+
+  const sealed = await encryptWithPassphrase(json, options.passphrase!);
+  const archive = {
+    format: "securechat-archive",
+    version: TRANSCRIPT_VERSION,
+    kdf: { name: "PBKDF2", hash: "SHA-256", salt: sealed.salt, iterations: sealed.iterations },
+    cipher: { name: "AES-GCM", iv: sealed.iv },
+    ciphertext: sealed.ciphertext, // The JSON transcript
+  };
+  return {
+    blob: new Blob([JSON.stringify(archive, null, 2)], { type: "application/json" }),
+    filename: `${filename}.encrypted.json`,
+  };
+}
+
+// Hand a generated file to the browser's downloads
+export function saveFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+}
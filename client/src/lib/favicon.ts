@@ -0,0 +1,62 @@
+/**
+ * Draw an unread badge on top of the page favicon
+ */
+
+const BADGE_COLOR = "#ef4444";
+const SIZE = 64;
+
+let originalHref: string | null = null;
+let baseImage: Promise<HTMLImageElement> | null = null;
+
+function getIconLink(): HTMLLinkElement | null {
+  return document.querySelector<HTMLLinkElement>('link[rel="icon"]');
+}
+
+function loadBaseImage(href: string): Promise<HTMLImageElement> {
+  if (!baseImage) {
+    baseImage = new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = reject;
+      img.src = href;
+    });
+  }
+  return baseImage;
+}
+
+export async function setFaviconBadge(count: number): Promise<void> {
+  const link = getIconLink();
+  if (!link) return;
+
+  if (originalHref === null) originalHref = link.href;
+
+  if (count <= 0) {
+    link.href = originalHref;
+    return;
+  }
+
+  const img = await loadBaseImage(originalHref);
+  const canvas = document.createElement("canvas");
+  canvas.width = SIZE;
+  canvas.height = SIZE;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  ctx.drawImage(img, 0, 0, SIZE, SIZE);
+
+  // Badge circle with the count (capped at 9+)
+  ctx.fillStyle = BADGE_COLOR;
+  ctx.beginPath();
+  ctx.arc(SIZE * 0.7, SIZE * 0.3, SIZE * 0.3, 0, 2 * Math.PI);
+  ctx.fill();
+
+  ctx.fillStyle = "#fff";
+  ctx.font = `bold ${SIZE * 0.36}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(count > 9 ? "9+" : String(count), SIZE * 0.7, SIZE * 0.32);
+
+  link.type = "image/png";
+  link.href = canvas.toDataURL("image/png");
+}
@@ -0,0 +1,124 @@
+/**
+ * Message envelopes
+ *
+ * The plaintext of every message is a versioned JSON envelope, encrypted as a
+ * whole so the server never sees the type or metadata:
+ *   { v: 1, type: "text", body: { text }, meta: { sentAt, replyToId } }
+ * - Validated with zod after decryption
+ * - Plain strings (sent before envelopes existed) read as text
+ * - Types or versions this client doesn't know read as "unsupported"
+ */
+
+import { z } from "zod";
+
+export const ENVELOPE_VERSION = 1;
+
+export const attachmentSchema = z.object({
+  id: z.string(), // Upload id on the server
+  key: z.string(), // AES-GCM key for the file (base64)
+  iv: z.string(),
+  digest: z.string(), // SHA-256 of the ciphertext (base64)
+  name: z.string(),
+  mimeType: z.string(),
+  size: z.number(), // Original size in bytes
+  thumbnail: z.string().optional(), // Small JPEG data URL for images
+  width: z.number().optional(),
+  height: z.number().optional(),
+  voice: z
+    .object({
+      duration: z.number(), // Seconds
+      waveform: z.array(z.number().min(0).max(1)).max(100), // Peak level per bar
+    })
+    .optional(), // Set for voice notes
+});
+
+export type Attachment = z.infer<typeof attachmentSchema>;
+
+// Informational only; the server's copy of these stays authoritative
+const envelopeMetaSchema = z
+  .object({
+    sentAt: z.string().optional(), // Sender's clock (ISO)
+    replyToId: z.string().optional(),
+  })
+  .passthrough();
+
+export type EnvelopeMeta = z.infer<typeof envelopeMetaSchema>;
+
+const envelopeSchema = z.object({
+  v: z.number().int().min(1),
+  type: z.string(),
+  body: z.unknown(),
+  meta: envelopeMetaSchema.optional(),
+});
+
+// Body schema for each envelope type this client understands
+const bodySchemas = {
+  text: z.object({ text: z.string() }),
+  attachment: z.object({ attachment: attachmentSchema }),
+};
+
+export type MessageBody =
+  | { type: "text"; text: string }
+  | { type: "attachment"; attachment: Attachment }
+  | { type: "unsupported"; envelopeType: string }; // From a newer client
+
+export type OutgoingBody = Exclude<MessageBody, { type: "unsupported" }>;
+
+export interface Envelope {
+  version: number;
+  body: MessageBody;
+  meta: EnvelopeMeta;
+}
+
+export function encodeEnvelope(body: OutgoingBody, meta: Omit<EnvelopeMeta, "sentAt"> = {}): string {
+  const { type, ...fields } = body;
+  return JSON.stringify({
+    v: ENVELOPE_VERSION,
+    type,
+    body: fields,
+    meta: { ...meta, sentAt: new Date().toISOString() },
+  });
+}
+
+export function decodeEnvelope(plaintext: string): Envelope {
+  let json: unknown;
+  if (plaintext.startsWith("{")) {
+    try {
+      json = JSON.parse(plaintext);
+    } catch {
+      // Plain text that happens to start with a brace
+    }
+  }
+
+  const envelope = envelopeSchema.safeParse(json);
+  if (!envelope.success) {
+    // Before envelopes, attachments were bare JSON and everything else plain text
+    const legacy = bodySchemas.attachment.safeParse(json);
+    const body: MessageBody = legacy.success
+      ? { type: "attachment", attachment: legacy.data.attachment }
+      : { type: "text", text: plaintext };
+    return { version: 0, body, meta: {} };
+  }
+
+  const { v, type, body, meta = {} } = envelope.data;
+  const unsupported: Envelope = { version: v, body: { type: "unsupported", envelopeType: type }, meta };
+  if (v > ENVELOPE_VERSION) return unsupported;
+
+  if (type === "text") {
+    const result = bodySchemas.text.safeParse(body);
+    return result.success ? { version: v, body: { type, ...result.data }, meta } : unsupported;
+  }
+  if (type === "attachment") {
+    const result = bodySchemas.attachment.safeParse(body);
+    return result.success ? { version: v, body: { type, ...result.data }, meta } : unsupported;
+  }
+  return unsupported;
+}
+
+// One-line summary for quotes, reply banners and edit history
+export function previewText(body: MessageBody): string {
+  if (body.type === "text") return body.text;
+  if (body.type === "unsupported") return "Unsupported message";
+  if (body.attachment.voice) return "🎤 Voice message";
+  return body.attachment.mimeType.startsWith("image/") ? "📷 Photo" : `📎 ${body.attachment.name}`;
+}
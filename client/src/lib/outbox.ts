@@ -0,0 +1,269 @@
+/**
+ * Outbox for outgoing messages
+ *
+ * - Messages are encrypted before they are queued; only ciphertext is persisted
+ * - The queue lives in localStorage so it survives reloads and network loss
+ * - Each account has its own queue; only the signed-in user's is loaded and sent
+ * - Items are sent in order per conversation and retried with backoff
+ * - Each item carries a client-generated id so the server can dedupe retries
+ */
+
+import { api, buildUrl } from "@shared/routes";
+import type { Message } from "@shared/schema";
+
+export interface OutboxItem {
+  clientId: string;
+  conversationId: string;
+  senderId: string;
+  content: string; // Encrypted ciphertext
+  iv: string;
+  replyToId?: string; // Quoted message
+  attachmentId?: string; // Upload the message carries
+  createdAt: string;
+  status: "sending" | "failed";
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+type SentListener = (item: OutboxItem, message: Message) => void;
+
+const OUTBOX_STORAGE_PREFIX = "securechat_outbox_";
+const LEGACY_STORAGE_KEY = "securechat_outbox"; // Shared by every account before queues were per user
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+let userId: string | null = null; // Whose queue is loaded
+let items: OutboxItem[] = [];
+let running = 0;
+let flushing = false;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const listeners = new Set<() => void>();
+const sentListeners = new Set<SentListener>();
+
+// ============================================
+// Queue Access
+// ============================================
+
+export function getOutboxItems(): OutboxItem[] {
+  return items;
+}
+
+/**
+ * Listen for queue changes (useSyncExternalStore compatible)
+ */
+export function subscribeOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Listen for queued messages the server accepted
+ */
+export function onMessageSent(listener: SentListener): () => void {
+  sentListeners.add(listener);
+  return () => {
+    sentListeners.delete(listener);
+  };
+}
+
+/**
+ * Queue an encrypted message and try to send it right away
+ */
+export function enqueueMessage(
+  item: Omit<OutboxItem, "status" | "attempts" | "nextAttemptAt">
+): OutboxItem {
+  const queued: OutboxItem = { ...item, status: "sending", attempts: 0, nextAttemptAt: 0 };
+  setItems([...items, queued]);
+  flush();
+  return queued;
+}
+
+/**
+ * Manually retry a failed message, optionally with freshly encrypted content
+ */
+export function retryMessage(clientId: string, encrypted?: { content: string; iv: string }) {
+  updateItem(clientId, { ...encrypted, status: "sending", attempts: 0, nextAttemptAt: 0 });
+  flush();
+}
+
+/**
+ * Drop a message from the queue without sending it
+ */
+export function removeMessage(clientId: string) {
+  setItems(items.filter((item) => item.clientId !== clientId));
+}
+
+// ============================================
+// Sending
+// ============================================
+
+/**
+ * Process the user's queue until the returned stop function is called
+ */
+export function startOutbox(forUserId: string): () => void {
+  if (userId !== forUserId) {
+    userId = forUserId;
+    setItems(loadItems(forUserId));
+  }
+
+  running++;
+  if (running === 1) {
+    window.addEventListener("online", handleOnline);
+    flush();
+  }
+
+  return () => {
+    running--;
+    if (running === 0) {
+      window.removeEventListener("online", handleOnline);
+      if (flushTimer) clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+  };
+}
+
+/**
+ * Forget the loaded queue (logout). It stays stored for that user's next login.
+ */
+export function unloadOutbox() {
+  userId = null;
+  items = [];
+  listeners.forEach((listener) => listener());
+}
+
+// Connectivity is back: retry everything that is waiting now
+function handleOnline() {
+  setItems(
+    items.map((item) => (item.status === "sending" ? { ...item, nextAttemptAt: 0 } : item))
+  );
+  flush();
+}
+
+async function flush() {
+  if (!running || flushing) return;
+  flushing = true;
+
+  try {
+    // Don't let a later message overtake one that is waiting to retry
+    const blocked = new Set<string>();
+
+    for (const item of items) {
+      if (!navigator.onLine) break;
+      if (item.senderId !== userId) break; // Logged out (or switched user) mid-flush
+      if (item.status !== "sending" || blocked.has(item.conversationId)) continue;
+
+      if (item.nextAttemptAt > Date.now()) {
+        blocked.add(item.conversationId);
+        continue;
+      }
+
+      const sent = await sendItem(item);
+      if (!sent) blocked.add(item.conversationId);
+    }
+  } finally {
+    flushing = false;
+    scheduleFlush();
+  }
+}
+
+function scheduleFlush() {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+  if (!running) return;
+
+  const pending = items.filter((item) => item.status === "sending");
+  if (pending.length === 0) return;
+
+  const next = Math.min(...pending.map((item) => item.nextAttemptAt));
+  flushTimer = setTimeout(flush, Math.max(0, next - Date.now()));
+}
+
+async function sendItem(item: OutboxItem): Promise<boolean> {
+  try {
+    const res = await fetch(buildUrl(api.messages.create.path, { id: item.conversationId }), {
+      method: api.messages.create.method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        content: item.content,
+        iv: item.iv,
+        clientId: item.clientId,
+        replyToId: item.replyToId,
+        attachmentId: item.attachmentId,
+      }),
+    });
+
+    if (res.ok) {
+      const message = (await res.json()) as Message;
+      removeMessage(item.clientId);
+      sentListeners.forEach((listener) => listener(item, message));
+      return true;
+    }
+
+    // Client errors won't succeed on retry
+    if (res.status >= 400 && res.status < 500 && res.status !== 408 && res.status !== 429) {
+      updateItem(item.clientId, { status: "failed" });
+      return false;
+    }
+
+    throw new Error(`Failed to send message (${res.status})`);
+  } catch (e) {
+    const attempts = item.attempts + 1;
+    if (attempts >= MAX_ATTEMPTS) {
+      updateItem(item.clientId, { status: "failed", attempts });
+    } else {
+      const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempts, MAX_RETRY_DELAY_MS);
+      updateItem(item.clientId, { attempts, nextAttemptAt: Date.now() + delay });
+    }
+    return false;
+  }
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+function readQueue(key: string): OutboxItem[] {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as OutboxItem[]) : [];
+  } catch (e) {
+    console.error("Failed to load outbox:", e);
+    return [];
+  }
+}
+
+function loadItems(forUserId: string): OutboxItem[] {
+  const own = readQueue(OUTBOX_STORAGE_PREFIX + forUserId).filter((item) => item.senderId === forUserId);
+
+  // Move this user's items out of the old shared queue, leaving everyone else's
+  const legacy = readQueue(LEGACY_STORAGE_KEY);
+  if (legacy.length === 0) return own;
+  const others = legacy.filter((item) => item.senderId !== forUserId);
+  if (others.length > 0) {
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(others));
+  } else {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+  return [...own, ...legacy.filter((item) => item.senderId === forUserId)];
+}
+
+function setItems(next: OutboxItem[]) {
+  items = next;
+  if (userId) localStorage.setItem(OUTBOX_STORAGE_PREFIX + userId, JSON.stringify(items));
+  listeners.forEach((listener) => listener());
+}
+
+function updateItem(clientId: string, changes: Partial<OutboxItem>) {
+  setItems(items.map((item) => (item.clientId === clientId ? { ...item, ...changes } : item)));
+}
+
+// Keep tabs in sync when another tab changes the queue
+window.addEventListener("storage", (e) => {
+  if (!userId || e.key !== OUTBOX_STORAGE_PREFIX + userId) return;
+  items = readQueue(e.key).filter((item) => item.senderId === userId);
+  listeners.forEach((listener) => listener());
+});
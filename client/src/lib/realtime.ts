@@ -0,0 +1,170 @@
+/**
+ * Realtime connection to the server over a single shared WebSocket
+ *
+ * - The socket is opened while at least one component holds a connection
+ * - The session cookie authenticates it; no token handling on the client
+ * - Reconnects with exponential backoff; callers poll while it is down
+ * - Closed on logout (or by the server when the session ends); holders
+ *   reacquire it for the next user
+ */
+
+import { api } from "@shared/routes";
+import {
+  REALTIME_SESSION_ENDED,
+  realtimeServerEventSchema,
+  type RealtimeClientEvent,
+  type RealtimeServerEvent,
+} from "@shared/schema";
+
+export type RealtimeStatus = "idle" | "connecting" | "open" | "closed";
+
+type EventListener = (event: RealtimeServerEvent) => void;
+
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+let socket: WebSocket | null = null;
+let status: RealtimeStatus = "idle";
+let holders = 0;
+let retryAttempt = 0;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const eventListeners = new Set<EventListener>();
+const statusListeners = new Set<() => void>();
+
+// ============================================
+// Connection Lifecycle
+// ============================================
+
+/**
+ * Keep the socket open until the returned release function is called
+ */
+export function acquireConnection(): () => void {
+  holders++;
+  if (holders === 1) connect();
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    holders--;
+    if (holders === 0) disconnect();
+  };
+}
+
+function connect() {
+  if (socket) return;
+
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const ws = new WebSocket(`${protocol}//${window.location.host}${api.realtime.path}`);
+  socket = ws;
+  setStatus("connecting");
+
+  ws.onopen = () => {
+    retryAttempt = 0;
+    setStatus("open");
+    reportPresence();
+  };
+
+  ws.onmessage = (e) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(e.data);
+    } catch {
+      return;
+    }
+
+    const parsed = realtimeServerEventSchema.safeParse(data);
+    if (!parsed.success) return; // Ignore events this client doesn't understand
+
+    eventListeners.forEach((listener) => listener(parsed.data));
+  };
+
+  ws.onclose = (e) => {
+    if (socket !== ws) return;
+    socket = null;
+    setStatus("closed");
+    if (e.code !== REALTIME_SESSION_ENDED) scheduleReconnect();
+  };
+}
+
+function disconnect() {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  const ws = socket;
+  socket = null;
+  ws?.close();
+  setStatus("idle");
+}
+
+/**
+ * Close the socket now (logout). It opens again when a component next acquires it.
+ */
+export function closeConnection() {
+  disconnect();
+  retryAttempt = 0;
+}
+
+function scheduleReconnect() {
+  if (holders === 0 || retryTimer) return;
+
+  const delay = Math.min(1000 * 2 ** retryAttempt, MAX_RETRY_DELAY_MS);
+  retryAttempt++;
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    if (holders > 0) connect();
+  }, delay);
+}
+
+/**
+ * Send an event to the server. Returns false if the socket isn't open.
+ */
+export function sendEvent(event: RealtimeClientEvent): boolean {
+  if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+  socket.send(JSON.stringify(event));
+  return true;
+}
+
+// Hidden tabs report "away" so presence reflects whether the user is looking
+function reportPresence() {
+  sendEvent({ type: "presence", status: document.hidden ? "away" : "online" });
+}
+
+document.addEventListener("visibilitychange", reportPresence);
+
+// ============================================
+// Subscriptions
+// ============================================
+
+/**
+ * Listen for server-pushed events. Returns an unsubscribe function.
+ */
+export function subscribeEvents(listener: EventListener): () => void {
+  eventListeners.add(listener);
+  return () => {
+    eventListeners.delete(listener);
+  };
+}
+
+/**
+ * Listen for connection status changes (useSyncExternalStore compatible)
+ */
+export function subscribeStatus(listener: () => void): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+export function getStatus(): RealtimeStatus {
+  return status;
+}
+
+function setStatus(next: RealtimeStatus) {
+  if (status === next) return;
+  status = next;
+  statusListeners.forEach((listener) => listener());
+}
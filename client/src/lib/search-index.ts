@@ -0,0 +1,227 @@
+/**
+ * Local message search
+ *
+ * The server only has ciphertext, so search runs over an index on this device:
+ * - Filled from messages as they are decrypted for display
+ * - Stored in IndexedDB (one database per account), each entry encrypted with a
+ *   non-extractable device key that never leaves the browser
+ * - Decrypted into memory on the first search, then kept in sync
+ * - Disappearing messages are never indexed; deleted ones are dropped
+ */
+
+import { encryptMessage, decryptMessage } from "@/lib/crypto";
+
+export interface IndexEntry {
+  messageId: string;
+  conversationId: string;
+  senderId: string;
+  text: string;
+  createdAt: string;
+  version: string; // IV of the message it was taken from; changes on edit
+}
+
+interface StoredEntry {
+  id: string;
+  conversationId: string;
+  createdAt: string;
+  content: string; // Encrypted IndexEntry
+  iv: string;
+}
+
+interface SearchIndex {
+  db: IDBDatabase;
+  key: CryptoKey;
+  entries: Promise<Map<string, IndexEntry>> | null; // Loaded by the first search
+  versions: Map<string, string>; // What's already stored (or removed), to skip rewrites
+}
+
+export const MIN_SEARCH_LENGTH = 2;
+
+const DB_PREFIX = "securechat_search_";
+const DEVICE_KEY_ID = "device";
+const MAX_RESULTS = 50;
+const REMOVED = "";
+
+const indexes = new Map<string, Promise<SearchIndex>>();
+
+// ============================================
+// IndexedDB Helpers
+// ============================================
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(userId: string): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_PREFIX + userId, 1);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    db.createObjectStore("keys");
+    db.createObjectStore("messages", { keyPath: "id" }).createIndex("conversationId", "conversationId");
+  };
+  return request(req);
+}
+
+async function loadDeviceKey(db: IDBDatabase): Promise<CryptoKey> {
+  const existing = await request(db.transaction("keys").objectStore("keys").get(DEVICE_KEY_ID));
+  if (existing) return existing as CryptoKey;
+
+  const key = await window.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+  const tx = db.transaction("keys", "readwrite");
+  tx.objectStore("keys").put(key, DEVICE_KEY_ID);
+  await transactionDone(tx);
+  return key;
+}
+
+function getIndex(userId: string): Promise<SearchIndex> {
+  let index = indexes.get(userId);
+  if (!index) {
+    index = (async () => {
+      const db = await openDatabase(userId);
+      const key = await loadDeviceKey(db);
+      return { db, key, entries: null, versions: new Map<string, string>() };
+    })();
+    index.catch(() => indexes.delete(userId)); // Try again next time
+    indexes.set(userId, index);
+  }
+  return index;
+}
+
+async function loadEntries(index: SearchIndex): Promise<Map<string, IndexEntry>> {
+  const store = index.db.transaction("messages").objectStore("messages");
+  const stored = (await request(store.getAll())) as StoredEntry[];
+  const entries = new Map<string, IndexEntry>();
+
+  await Promise.all(
+    stored.map(async (record) => {
+      try {
+        const entry = JSON.parse(await decryptMessage(record.content, record.iv, index.key)) as IndexEntry;
+        entries.set(entry.messageId, entry);
+        index.versions.set(entry.messageId, entry.version);
+      } catch (e) {
+        // Unreadable (e.g. the device key was reset); indexed again when next seen
+      }
+    })
+  );
+  return entries;
+}
+
+// ============================================
+// Indexing
+// ============================================
+
+/**
+ * Add or update messages in the index; unchanged ones are skipped
+ */
+export async function indexMessages(userId: string, updates: IndexEntry[]): Promise<void> {
+  const index = await getIndex(userId);
+  const changed = updates.filter((entry) => index.versions.get(entry.messageId) !== entry.version);
+  if (changed.length === 0) return;
+
+  const records = await Promise.all(
+    changed.map(async (entry): Promise<StoredEntry> => {
+      const { ciphertext, iv } = await encryptMessage(JSON.stringify(entry), index.key);
+      return {
+        id: entry.messageId,
+        conversationId: entry.conversationId,
+        createdAt: entry.createdAt,
+        content: ciphertext,
+        iv,
+      };
+    })
+  );
+
+  const tx = index.db.transaction("messages", "readwrite");
+  const store = tx.objectStore("messages");
+  records.forEach((record) => store.put(record));
+  await transactionDone(tx);
+
+  const entries = index.entries ? await index.entries : null;
+  changed.forEach((entry) => {
+    index.versions.set(entry.messageId, entry.version);
+    entries?.set(entry.messageId, entry);
+  });
+}
+
+/**
+ * Drop messages from the index (deleted, hidden or now disappearing)
+ */
+export async function removeFromIndex(userId: string, messageIds: string[]): Promise<void> {
+  const index = await getIndex(userId);
+  const ids = messageIds.filter((id) => index.versions.get(id) !== REMOVED);
+  if (ids.length === 0) return;
+
+  const entries = index.entries ? await index.entries : null;
+
+  const tx = index.db.transaction("messages", "readwrite");
+  const store = tx.objectStore("messages");
+  ids.forEach((id) => store.delete(id));
+  await transactionDone(tx);
+
+  ids.forEach((id) => {
+    index.versions.set(id, REMOVED);
+    entries?.delete(id);
+  });
+}
+
+/**
+ * Drop everything from one conversation (history cleared or deleted)
+ */
+export async function removeConversationFromIndex(userId: string, conversationId: string): Promise<void> {
+  const index = await getIndex(userId);
+  const store = index.db.transaction("messages").objectStore("messages");
+  const ids = (await request(store.index("conversationId").getAllKeys(conversationId))) as string[];
+  await removeFromIndex(userId, ids);
+}
+
+// ============================================
+// Search
+// ============================================
+
+// Lowercase and without accents, so "cafe" finds "Café"
+export function normalizeText(text: string) {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+export function searchTerms(query: string) {
+  return normalizeText(query).split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Messages containing every word of the query, newest first
+ */
+export async function searchMessages(
+  userId: string,
+  query: string,
+  conversationId?: string
+): Promise<IndexEntry[]> {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return [];
+
+  const index = await getIndex(userId);
+  if (!index.entries) index.entries = loadEntries(index);
+  const entries = await index.entries;
+
+  return Array.from(entries.values())
+    .filter((entry) => !conversationId || entry.conversationId === conversationId)
+    .filter((entry) => {
+      const text = normalizeText(entry.text);
+      return terms.every((term) => text.includes(term));
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, MAX_RESULTS);
+}
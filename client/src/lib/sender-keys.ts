@@ -0,0 +1,110 @@
+/**
+ * Group sender keys
+ *
+ * - Each member creates one chain key per group generation on their own device
+ * - The chain key is shared with every member (the sender included), each copy
+ *   encrypted with the pairwise ECDH key between sender and recipient
+ * - The server bumps the generation whenever membership changes; members then
+ *   create a new chain key, so removed members can't read anything sent afterwards
+ * - Group message content names the generation it was encrypted with
+ */
+
+import { api, buildUrl } from "@shared/routes";
+import type { SenderKeyList } from "@shared/schema";
+import {
+  importPublicKey,
+  deriveSharedKey,
+  encryptMessage,
+  decryptMessage,
+  generateChainKey,
+  deriveSenderKey,
+} from "@/lib/crypto";
+
+export interface GroupKeyring {
+  generation: number; // Generation new messages must use
+  keys: Map<string, CryptoKey>; // By senderKeyId()
+}
+
+export function senderKeyId(senderId: string, generation: number) {
+  return `${senderId}:${generation}`;
+}
+
+// Pairwise keys are derived once per public key
+async function getPairwiseKey(
+  cache: Map<string, Promise<CryptoKey>>,
+  myPrivateKey: CryptoKey,
+  publicKeyBase64: string
+) {
+  let key = cache.get(publicKeyBase64);
+  if (!key) {
+    key = importPublicKey(publicKeyBase64).then((theirKey) => deriveSharedKey(myPrivateKey, theirKey));
+    cache.set(publicKeyBase64, key);
+  }
+  return key;
+}
+
+/**
+ * Fetch and unwrap every chain key shared with me in a group
+ */
+export async function fetchGroupKeyring(groupId: string, myPrivateKey: CryptoKey): Promise<GroupKeyring> {
+  const res = await fetch(buildUrl(api.groups.senderKeys.list.path, { id: groupId }));
+  if (!res.ok) throw new Error("Failed to fetch sender keys");
+  const { generation, keys } = (await res.json()) as SenderKeyList;
+
+  const pairwiseKeys = new Map<string, Promise<CryptoKey>>();
+  const keyring: GroupKeyring = { generation, keys: new Map() };
+
+  await Promise.all(
+    keys.map(async (key) => {
+      if (!key.senderPublicKey) return;
+      try {
+        const pairwiseKey = await getPairwiseKey(pairwiseKeys, myPrivateKey, key.senderPublicKey);
+        const chainKey = await decryptMessage(key.content, key.iv, pairwiseKey);
+        keyring.keys.set(senderKeyId(key.senderId, key.generation), await deriveSenderKey(chainKey));
+      } catch (e) {
+        // A key wrapped for an older device key pair; its messages stay unreadable
+        console.error("Failed to unwrap sender key:", e);
+      }
+    })
+  );
+
+  return keyring;
+}
+
+/**
+ * Create my chain key for a generation and share it with every member.
+ * Resolves quietly if the server already has one (another tab won the race)
+ * or the generation moved on; refetch the keyring either way.
+ */
+export async function distributeSenderKey(
+  groupId: string,
+  generation: number,
+  myPrivateKey: CryptoKey,
+  members: { id: string; publicKey: string | null }[]
+): Promise<void> {
+  const missingKey = members.find((member) => !member.publicKey);
+  if (missingKey) {
+    throw new Error("A group member hasn't set up encryption yet");
+  }
+
+  const chainKey = generateChainKey();
+  const pairwiseKeys = new Map<string, Promise<CryptoKey>>();
+
+  const shares = await Promise.all(
+    members.map(async (member) => {
+      const pairwiseKey = await getPairwiseKey(pairwiseKeys, myPrivateKey, member.publicKey!);
+      const { ciphertext, iv } = await encryptMessage(chainKey, pairwiseKey);
+      return { recipientId: member.id, content: ciphertext, iv };
+    })
+  );
+
+  const res = await fetch(buildUrl(api.groups.senderKeys.distribute.path, { id: groupId }), {
+    method: api.groups.senderKeys.distribute.method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ generation, shares }),
+  });
+
+  if (!res.ok && res.status !== 409) {
+    throw new Error("Failed to distribute sender key");
+  }
+}
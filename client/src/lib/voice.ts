@@ -0,0 +1,44 @@
+/**
+ * Voice notes
+ *
+ * Recordings are sent as encrypted attachments. Duration and a coarse waveform
+ * are computed on the sender's device and travel inside the encrypted message,
+ * so the player can draw itself before anything is downloaded.
+ */
+
+export const WAVEFORM_BARS = 48;
+
+// 0:07, 1:23
+export function formatDuration(seconds: number) {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Decode a recording to measure its duration and peak levels (0..1 per bar)
+ */
+export async function analyzeRecording(blob: Blob): Promise<{ duration: number; waveform: number[] }> {
+  const context = new AudioContext();
+  try {
+    const audio = await context.decodeAudioData(await blob.arrayBuffer());
+    const samples = audio.getChannelData(0);
+    const barSize = Math.max(1, Math.floor(samples.length / WAVEFORM_BARS));
+
+    const peaks = Array.from({ length: WAVEFORM_BARS }, (_, bar) => {
+      let peak = 0;
+      const end = Math.min((bar + 1) * barSize, samples.length);
+      for (let i = bar * barSize; i < end; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      return peak;
+    });
+
+    const loudest = Math.max(...peaks) || 1;
+    return {
+      duration: audio.duration,
+      waveform: peaks.map((peak) => Math.round((peak / loudest) * 100) / 100),
+    };
+  } finally {
+    context.close();
+  }
+}
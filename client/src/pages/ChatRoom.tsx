@@ -1,27 +1,168 @@
-import { useEffect, useState, useMemo } from "react";
-import { useParams, useLocation } from "wouter";
-import { useMessages, useSendMessage, useConversation } from "@/hooks/use-secure-chat";
+import { useEffect, useState, useMemo, useRef } from "react";
+import { useParams, useLocation, useSearch } from "wouter";
+import {
+  useMessages,
+  useSendMessage,
+  useConversation,
+  useConversationKeys,
+  useTyping,
+  useReceipts,
+  useEditMessage,
+  useDeleteMessage,
+  useMessageRevisions,
+  useReactToMessage,
+  useSetDisappearingTimer,
+  useDeleteConversation,
+  useExportConversation,
+  useRetryMessage,
+} from "@/hooks/use-secure-chat";
 import { useUser, useInitializeKeys } from "@/hooks/use-auth";
 import { useGetUser } from "@/hooks/use-users";
-import { Send, Lock, ArrowLeft, Loader2, User } from "lucide-react";
-import { motion } from "framer-motion";
+import {
+  Send,
+  Lock,
+  ArrowLeft,
+  Loader2,
+  User,
+  Users,
+  Pencil,
+  Reply,
+  X,
+  Paperclip,
+  Mic,
+  MoreVertical,
+  Eraser,
+  Download,
+  Trash2,
+} from "lucide-react";
+import { MAX_ATTACHMENT_BYTES } from "@shared/schema";
+import { MessageList } from "@/components/MessageList";
+import { removeMessage } from "@/lib/outbox";
+import { uploadAttachment, formatBytes } from "@/lib/attachments";
+import type { Attachment } from "@/lib/message-body";
+import { analyzeRecording, formatDuration } from "@/lib/voice";
+import { useVoiceRecorder } from "@/hooks/use-voice-recorder";
+import { TypingIndicator } from "@/components/TypingIndicator";
+import { PresenceDot, PresenceLabel } from "@/components/Presence";
+import { GroupInfo } from "@/components/GroupInfo";
+import { MessageHistoryDialog } from "@/components/MessageHistoryDialog";
+import { DeleteMessageDialog } from "@/components/DeleteMessageDialog";
+import { DisappearingTimerMenu } from "@/components/DisappearingTimer";
+import { ConversationSearch } from "@/components/MessageSearch";
+import { DeleteConversationDialog } from "@/components/DeleteConversationDialog";
+import { ExportConversationDialog } from "@/components/ExportConversationDialog";
+import type { ExportFormat } from "@/lib/export";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 export default function ChatRoom() {
   const { id } = useParams<{ id: string }>();
   const [, setLocation] = useLocation();
+  const search = useSearch();
   const [input, setInput] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<{ id: string; senderId: string; content: string } | null>(
+    null
+  );
+  const [jumpTargetId, setJumpTargetId] = useState<string | null>(null);
+  const [upload, setUpload] = useState<{ name: string; progress: number } | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<{ id: string; senderId: string } | null>(null);
+  const [removing, setRemoving] = useState<"clear" | "delete" | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
 
   // Auth & Keys
   const { data: user } = useUser();
   const { keys, initialize } = useInitializeKeys();
 
   // Conversation data
-  const { data: conversation } = useConversation(id || "");
-  const otherUserPublicKey = conversation?.otherUser?.publicKey || null;
+  const { data: conversation, isError: conversationError } = useConversation(id || "");
+  const isGroup = !!conversation?.isGroup;
+  const messageCrypto = useConversationKeys(conversation, keys?.privateKey || null);
 
   // Messages with decryption
-  const { messages, isLoading } = useMessages(id || "", keys?.privateKey || null, otherUserPublicKey);
-  const sendMessage = useSendMessage(id || "", keys?.privateKey || null, otherUserPublicKey);
+  const {
+    messages,
+    data,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useMessages(id || "", messageCrypto);
+  const sendMessage = useSendMessage(id || "", messageCrypto);
+  const retryMessage = useRetryMessage(id || "", messageCrypto);
+  const { isPeerTyping, typingUserId, notifyTyping, stopTyping } = useTyping(id || "");
+  const receipts = useReceipts(id || "", user?.id, messages);
+  const editMessage = useEditMessage(id || "", messageCrypto);
+  const deleteMessage = useDeleteMessage(id || "");
+  const reactToMessage = useReactToMessage(id || "", messageCrypto);
+  const setDisappearingTimer = useSetDisappearingTimer(id || "");
+  const deleteConversation = useDeleteConversation();
+  const exportConversation = useExportConversation(conversation, messageCrypto);
+  const revisions = useMessageRevisions(id || "", historyId, messageCrypto);
+
+  const displayMessages = useMemo(
+    () => messages.map((msg) => ({ ...msg, content: msg.decryptedContent ?? "" })),
+    [messages]
+  );
+
+  // Group bubbles and typing are labelled with member names
+  const senderNames = useMemo(
+    () =>
+      isGroup
+        ? Object.fromEntries(conversation!.members.map((m) => [m.id, m.name || "Unknown"]))
+        : undefined,
+    [isGroup, conversation]
+  );
+
+  const nameOf = (userId: string) =>
+    userId === user?.id
+      ? "yourself"
+      : senderNames?.[userId] ?? conversation?.otherUser?.name ?? "Unknown";
+
+  // Jumping to a quoted message or search hit: page back through history until
+  // it's loaded, then keep it highlighted for a moment
+  const isJumpTargetLoaded = !!jumpTargetId && messages.some((msg) => msg.id === jumpTargetId);
+  const isJumpTargetFetched =
+    !!jumpTargetId && !!data?.pages.some((page) => page.messages.some((msg) => msg.id === jumpTargetId));
+  useEffect(() => {
+    if (!jumpTargetId) return;
+
+    if (isJumpTargetLoaded) {
+      const timer = setTimeout(() => setJumpTargetId(null), 2000);
+      return () => clearTimeout(timer);
+    }
+    if (isJumpTargetFetched) return; // Still being decrypted
+
+    if (hasNextPage) {
+      if (!isFetchingNextPage) fetchNextPage();
+    } else if (!isLoading) {
+      setJumpTargetId(null); // Not in the history this user can see
+    }
+  }, [jumpTargetId, isJumpTargetLoaded, isJumpTargetFetched, hasNextPage, isFetchingNextPage, isLoading]);
+
+  // Opened from a search hit on the home screen (/chat/:id?message=...)
+  useEffect(() => {
+    const target = new URLSearchParams(search).get("message");
+    if (!target) return;
+    setJumpTargetId(target);
+    setLocation(`/chat/${id}`, { replace: true });
+  }, [search, id]);
+
+  // Groups can send once this member's sender key is distributed
+  const canSend = !!messageCrypto?.canEncrypt;
+
+  // Removed from the group (or it no longer exists)
+  useEffect(() => {
+    if (conversationError) setLocation("/");
+  }, [conversationError]);
 
   // Initialize keys when user is available
   useEffect(() => {
@@ -30,21 +171,147 @@ export default function ChatRoom() {
     }
   }, [user]);
 
+  const startEditing = (message: { id: string; content: string }) => {
+    setReplyingTo(null);
+    setEditingId(message.id);
+    setInput(message.content);
+    inputRef.current?.focus();
+  };
+
+  const startReplying = (message: { id: string; senderId: string; content: string }) => {
+    if (editingId) cancelEditing();
+    setReplyingTo({ id: message.id, senderId: message.senderId, content: message.content });
+    inputRef.current?.focus();
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setInput("");
+  };
+
+  const handleDelete = async (scope: "me" | "everyone") => {
+    if (!deleting) return;
+    try {
+      await deleteMessage.mutateAsync({ messageId: deleting.id, scope });
+      if (editingId === deleting.id) cancelEditing();
+      setDeleting(null);
+    } catch (error) {
+      console.error("Failed to delete:", error); // Also shown in the dialog
+    }
+  };
+
+  const handleRemove = async (scope: "history" | "me" | "everyone") => {
+    try {
+      await deleteConversation.mutateAsync({ conversationId: id!, scope });
+      setRemoving(null);
+      if (scope === "history") {
+        setReplyingTo(null);
+        if (editingId) cancelEditing();
+      } else {
+        setLocation("/");
+      }
+    } catch (error) {
+      console.error("Failed to delete conversation:", error); // Also shown in the dialog
+    }
+  };
+
+  const handleExport = async (options: { format: ExportFormat; passphrase?: string }) => {
+    try {
+      await exportConversation.mutateAsync(options);
+      setIsExporting(false);
+    } catch (error) {
+      console.error("Failed to export conversation:", error); // Also shown in the dialog
+    }
+  };
+
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || !keys) return;
+    if (!input.trim() || !canSend) return;
 
     const content = input;
     setInput("");
+    stopTyping();
+
+    if (editingId) {
+      try {
+        await editMessage.mutateAsync({ messageId: editingId, text: content });
+        setEditingId(null);
+      } catch (error) {
+        console.error("Failed to edit:", error);
+        setInput(content);
+      }
+      return;
+    }
+
+    const replyTo = replyingTo;
+    setReplyingTo(null);
 
     try {
-      await sendMessage.mutateAsync(content);
+      await sendMessage.mutateAsync({ body: { type: "text", text: content }, replyToId: replyTo?.id });
     } catch (error) {
       console.error("Failed to send:", error);
       setInput(content); // Restore on failure
+      setReplyingTo(replyTo);
+    }
+  };
+
+  // Encrypt and upload the file, then send its key and metadata as a message
+  const sendAttachment = async (file: File, voice?: Attachment["voice"]) => {
+    if (!id) return;
+
+    setUploadError(null);
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      setUploadError(`Files can be up to ${formatBytes(MAX_ATTACHMENT_BYTES)}`);
+      return;
+    }
+
+    setUpload({ name: file.name, progress: 0 });
+    try {
+      const attachment = await uploadAttachment(id, file, (progress) =>
+        setUpload({ name: file.name, progress })
+      );
+
+      const replyTo = replyingTo;
+      setReplyingTo(null);
+      await sendMessage.mutateAsync({
+        body: { type: "attachment", attachment: { ...attachment, voice } },
+        replyToId: replyTo?.id,
+      });
+    } catch (error) {
+      console.error("Failed to send attachment:", error);
+      setUploadError(error instanceof Error ? error.message : "Failed to send attachment");
+    } finally {
+      setUpload(null);
     }
   };
 
+  const handleAttach = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow picking the same file again
+    if (file && canSend) sendAttachment(file);
+  };
+
+  // Voice notes are attachments with a duration and waveform for the player
+  const recorder = useVoiceRecorder(async ({ blob, durationMs }) => {
+    const voice = await analyzeRecording(blob).catch((error) => {
+      console.error("Failed to analyze recording:", error);
+      return { duration: durationMs / 1000, waveform: [] };
+    });
+
+    const type = blob.type || "audio/webm";
+    const extension = type.includes("ogg") ? "ogg" : type.includes("mp4") ? "m4a" : "webm";
+    await sendAttachment(new File([blob], `voice-message-${Date.now()}.${extension}`, { type }), voice);
+  });
+
+  const handleRecordRelease = (e: React.PointerEvent<HTMLButtonElement>) => {
+    // Releasing outside the button (slid away) throws the recording away
+    const rect = e.currentTarget.getBoundingClientRect();
+    const inside =
+      e.clientX >= rect.left && e.clientX <= rect.right && e.clientY >= rect.top && e.clientY <= rect.bottom;
+    if (inside) recorder.stop();
+    else recorder.cancel();
+  };
+
   if (!id || !user) {
     return (
       <div className="h-screen flex items-center justify-center">
@@ -65,100 +332,307 @@ export default function ChatRoom() {
             <ArrowLeft className="w-5 h-5 text-muted-foreground" />
           </button>
 
-          <div className="flex items-center gap-3">
-            <div className="w-10 h-10 rounded-full bg-secondary flex items-center justify-center">
-              {conversation?.otherUser?.avatarUrl ? (
-                <img src={conversation.otherUser.avatarUrl} alt="" className="w-10 h-10 rounded-full" />
-              ) : (
-                <User className="w-5 h-5 text-muted-foreground" />
-              )}
-            </div>
-            <div>
-              <h2 className="font-semibold text-foreground">
-                {conversation?.otherUser?.name || "Loading..."}
-              </h2>
-              <div className="text-xs text-emerald-500 flex items-center gap-1">
-                <Lock className="w-3 h-3" />
-                End-to-end encrypted
+          {isGroup ? (
+            <GroupInfo group={conversation!} currentUserId={user.id} onLeft={() => setLocation("/")}>
+              <button className="flex items-center gap-3 text-left">
+                <div className="w-10 h-10 rounded-full bg-secondary flex items-center justify-center">
+                  <Users className="w-5 h-5 text-muted-foreground" />
+                </div>
+                <div className="min-w-0">
+                  <h2 className="font-semibold text-foreground">{conversation!.name}</h2>
+                  {isPeerTyping ? (
+                    <TypingIndicator name={senderNames?.[typingUserId!]} />
+                  ) : (
+                    <div className="text-xs text-muted-foreground truncate max-w-[60vw]">
+                      {conversation!.members
+                        .map((m) => (m.id === user.id ? "You" : m.name || "Unknown"))
+                        .join(", ")}
+                    </div>
+                  )}
+                </div>
+              </button>
+            </GroupInfo>
+          ) : (
+            <div className="flex items-center gap-3">
+              <div className="relative w-10 h-10 rounded-full bg-secondary flex items-center justify-center">
+                {conversation?.otherUser?.avatarUrl ? (
+                  <img src={conversation.otherUser.avatarUrl} alt="" className="w-10 h-10 rounded-full" />
+                ) : (
+                  <User className="w-5 h-5 text-muted-foreground" />
+                )}
+                {conversation?.otherUser && <PresenceDot presence={conversation.otherUser.presence} />}
+              </div>
+              <div>
+                <h2 className="font-semibold text-foreground">
+                  {conversation?.otherUser?.name || "Loading..."}
+                </h2>
+                {isPeerTyping ? (
+                  <TypingIndicator />
+                ) : (
+                  <div className="text-xs flex items-center gap-2">
+                    {conversation?.otherUser && (
+                      <PresenceLabel presence={conversation.otherUser.presence} />
+                    )}
+                    <span className="text-emerald-500 flex items-center gap-1">
+                      <Lock className="w-3 h-3" />
+                      End-to-end encrypted
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
-          </div>
+          )}
         </div>
-      </header>
 
-      {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {isLoading ? (
-          <div className="flex justify-center py-8">
-            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
-          </div>
-        ) : messages.length === 0 ? (
-          <div className="text-center py-8 text-muted-foreground">
-            <Lock className="w-8 h-8 mx-auto mb-2 opacity-50" />
-            <p>No messages yet</p>
-            <p className="text-sm">Send an encrypted message to start</p>
+        {conversation && (
+          <div className="flex items-center gap-1">
+            <ConversationSearch
+              conversationId={conversation.id}
+              senderName={(senderId) => (senderId === user.id ? "You" : nameOf(senderId))}
+              onSelect={setJumpTargetId}
+            />
+            <DisappearingTimerMenu
+              value={conversation.disappearAfterSeconds}
+              onChange={(seconds) => setDisappearingTimer.mutate(seconds)}
+              disabled={setDisappearingTimer.isPending}
+            />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  className="p-2 hover:bg-secondary rounded-full transition-colors text-muted-foreground"
+                  title="More"
+                >
+                  <MoreVertical className="w-5 h-5" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem
+                  onSelect={() => {
+                    exportConversation.reset();
+                    setIsExporting(true);
+                  }}
+                  disabled={!messageCrypto}
+                >
+                  <Download className="w-4 h-4 mr-2" /> Export chat
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onSelect={() => {
+                    deleteConversation.reset();
+                    setRemoving("clear");
+                  }}
+                >
+                  <Eraser className="w-4 h-4 mr-2" /> Clear history
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onSelect={() => {
+                    deleteConversation.reset();
+                    setRemoving("delete");
+                  }}
+                  className="text-destructive focus:text-destructive"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" /> Delete conversation
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
-        ) : (
-          messages.map((msg) => (
-            <motion.div
-              key={msg.id}
-              initial={{ opacity: 0, y: 10 }}
-              animate={{ opacity: 1, y: 0 }}
-              className={`flex ${msg.senderId === user.id ? 'justify-end' : 'justify-start'}`}
-            >
-              <div className={`
-                max-w-[75%] rounded-2xl px-4 py-3 text-sm
-                ${msg.senderId === user.id
-                  ? 'bg-primary text-white rounded-br-none'
-                  : 'bg-secondary text-secondary-foreground rounded-bl-none'}
-              `}>
-                {msg.isDecrypted ? (
-                  msg.decryptedContent
-                ) : (
-                  <span className="flex items-center gap-1 text-red-400">
-                    <Lock className="w-3 h-3" />
-                    Decryption failed
-                  </span>
-                )}
-              </div>
-            </motion.div>
-          ))
         )}
-      </div>
+      </header>
+
+      {/* Messages Area */}
+      <MessageList
+        messages={displayMessages}
+        currentUserId={user.id}
+        isLoading={isLoading}
+        receipts={receipts}
+        hasMore={hasNextPage}
+        isLoadingMore={isFetchingNextPage}
+        onLoadMore={() => fetchNextPage()}
+        onRetry={retryMessage}
+        onDiscard={removeMessage}
+        senderNames={senderNames}
+        peerName={conversation?.otherUser?.name ?? undefined}
+        onReply={startReplying}
+        onJumpToMessage={setJumpTargetId}
+        highlightId={jumpTargetId}
+        onEdit={startEditing}
+        onDelete={(msg) => {
+          deleteMessage.reset();
+          setDeleting(msg);
+        }}
+        onShowHistory={setHistoryId}
+        onReact={(messageId, emoji) => reactToMessage.mutate({ messageId, emoji })}
+      />
+
+      <MessageHistoryDialog
+        open={!!historyId}
+        onOpenChange={(open) => !open && setHistoryId(null)}
+        current={displayMessages.find((msg) => msg.id === historyId)}
+        revisions={revisions.data ?? []}
+        isLoading={revisions.isLoading}
+      />
+
+      <DeleteMessageDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        canDeleteForEveryone={deleting?.senderId === user.id}
+        isPending={deleteMessage.isPending}
+        error={deleteMessage.error}
+        onDelete={handleDelete}
+      />
+
+      <DeleteConversationDialog
+        action={removing}
+        onOpenChange={(open) => !open && setRemoving(null)}
+        canDeleteForBoth={!isGroup}
+        isPending={deleteConversation.isPending}
+        error={deleteConversation.error}
+        onConfirm={handleRemove}
+      />
+
+      <ExportConversationDialog
+        open={isExporting}
+        onOpenChange={setIsExporting}
+        isPending={exportConversation.isPending}
+        progress={exportConversation.progress}
+        error={exportConversation.error}
+        onExport={handleExport}
+      />
 
       {/* Input Area */}
       <div className="p-4 bg-background border-t border-border">
         <div className="max-w-4xl mx-auto">
+          {editingId && (
+            <div className="mb-2 px-3 py-2 flex items-center gap-2 text-xs text-muted-foreground">
+              <Pencil className="w-3 h-3 text-primary" />
+              <span className="flex-1">Editing message</span>
+              <button onClick={cancelEditing} className="p-1 rounded hover:bg-secondary">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+
+          {replyingTo && (
+            <div className="mb-2 px-3 py-2 flex items-center gap-2 text-xs text-muted-foreground border-l-2 border-primary bg-secondary/30 rounded-r-lg">
+              <Reply className="w-3 h-3 text-primary" />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-foreground">Replying to {nameOf(replyingTo.senderId)}</div>
+                <div className="truncate">{replyingTo.content}</div>
+              </div>
+              <button onClick={() => setReplyingTo(null)} className="p-1 rounded hover:bg-secondary">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+
+          {upload && (
+            <div className="mb-2 px-3 py-2 text-xs text-muted-foreground">
+              <div className="flex items-center gap-2 mb-1">
+                <Loader2 className="w-3 h-3 animate-spin text-primary" />
+                <span className="flex-1 truncate">Encrypting and uploading {upload.name}</span>
+                <span>{Math.round(upload.progress * 100)}%</span>
+              </div>
+              <div className="h-1 rounded-full bg-secondary overflow-hidden">
+                <div className="h-full bg-primary transition-all" style={{ width: `${upload.progress * 100}%` }} />
+              </div>
+            </div>
+          )}
+
+          {recorder.error && (
+            <div className="mb-2 px-3 text-xs text-destructive">{recorder.error}</div>
+          )}
+
+          {uploadError && (
+            <div className="mb-2 px-3 flex items-center gap-2 text-xs text-destructive">
+              <span className="flex-1">{uploadError}</span>
+              <button onClick={() => setUploadError(null)} className="p-1 rounded hover:bg-secondary">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+
           <form
             onSubmit={handleSend}
             className="relative flex items-center gap-3 bg-secondary/50 rounded-2xl p-2 border border-white/5 focus-within:ring-2 focus-within:ring-primary/50 transition-all shadow-lg"
           >
-            <input
-              type="text"
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder="Type an encrypted message..."
-              className="flex-1 bg-transparent border-none px-4 py-3 text-sm focus:outline-none placeholder:text-muted-foreground/50"
-              autoFocus
-              disabled={!keys}
-            />
-
+            <input ref={fileInputRef} type="file" className="hidden" onChange={handleAttach} />
             <button
-              type="submit"
-              disabled={!input.trim() || sendMessage.isPending || !keys}
-              className="
-                p-3 rounded-xl bg-primary text-white 
-                hover:bg-primary/90 hover:scale-105 active:scale-95
-                disabled:opacity-50 disabled:hover:scale-100 disabled:cursor-not-allowed
-                transition-all duration-200 shadow-lg shadow-primary/20
-              "
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!canSend || !!upload || !!editingId || recorder.isRecording}
+              className="p-2 rounded-xl text-muted-foreground hover:bg-secondary disabled:opacity-50 transition-colors"
+              title="Attach a file"
             >
-              {sendMessage.isPending ? (
-                <Loader2 className="w-5 h-5 animate-spin" />
-              ) : (
-                <Send className="w-5 h-5" />
-              )}
+              <Paperclip className="w-5 h-5" />
             </button>
+
+            {recorder.isRecording ? (
+              <div className="flex-1 flex items-center gap-3 px-4 py-3 text-sm">
+                <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+                <span className="tabular-nums">{formatDuration(recorder.elapsedMs / 1000)}</span>
+                <span className="text-xs text-muted-foreground">Release to send, slide away to cancel</span>
+              </div>
+            ) : (
+              <input
+                ref={inputRef}
+                type="text"
+                value={input}
+                onChange={(e) => {
+                  setInput(e.target.value);
+                  if (e.target.value && !editingId) notifyTyping();
+                  else stopTyping();
+                }}
+                onBlur={stopTyping}
+                onKeyDown={(e) => {
+                  if (e.key === "Escape" && editingId) cancelEditing();
+                  if (e.key === "Escape" && replyingTo) setReplyingTo(null);
+                }}
+                placeholder={
+                  canSend || !isGroup ? "Type an encrypted message..." : "Setting up group encryption..."
+                }
+                className="flex-1 bg-transparent border-none px-4 py-3 text-sm focus:outline-none placeholder:text-muted-foreground/50"
+                autoFocus
+                disabled={!canSend}
+              />
+            )}
+
+            {!input.trim() && !editingId ? (
+              <button
+                type="button"
+                onPointerDown={(e) => {
+                  e.currentTarget.setPointerCapture(e.pointerId); // Keep getting the release
+                  recorder.start();
+                }}
+                onPointerUp={handleRecordRelease}
+                onPointerCancel={recorder.cancel}
+                disabled={!canSend || !!upload}
+                className={`
+                  p-3 rounded-xl text-white touch-none select-none
+                  disabled:opacity-50 disabled:cursor-not-allowed
+                  transition-all duration-200 shadow-lg
+                  ${recorder.isRecording ? "bg-red-500 scale-110 shadow-red-500/30" : "bg-primary shadow-primary/20 hover:bg-primary/90"}
+                `}
+                title="Hold to record a voice message"
+              >
+                <Mic className="w-5 h-5" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!input.trim() || sendMessage.isPending || editMessage.isPending || !canSend}
+                className="
+                  p-3 rounded-xl bg-primary text-white 
+                  hover:bg-primary/90 hover:scale-105 active:scale-95
+                  disabled:opacity-50 disabled:hover:scale-100 disabled:cursor-not-allowed
+                  transition-all duration-200 shadow-lg shadow-primary/20
+                "
+              >
+                {sendMessage.isPending || editMessage.isPending ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Send className="w-5 h-5" />
+                )}
+              </button>
+            )}
           </form>
 
           <div className="text-center mt-3">
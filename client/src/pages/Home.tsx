@@ -1,10 +1,41 @@
 import { useUser, useGoogleLogin, usePhoneLogin, useLogout, useInitializeKeys } from "@/hooks/use-auth";
 import { useSearchUsers } from "@/hooks/use-users";
-import { useConversations, useCreateConversation } from "@/hooks/use-secure-chat";
-import { Shield, Smartphone, Zap, Lock, Search, LogOut, MessageCircle, User } from "lucide-react";
+import {
+  useConversations,
+  useCreateConversation,
+  useLastMessagePreviews,
+  useUpdateConversationPreferences,
+  useDeleteConversation,
+} from "@/hooks/use-secure-chat";
+import {
+  Shield,
+  Smartphone,
+  Zap,
+  Lock,
+  Search,
+  LogOut,
+  MessageCircle,
+  User,
+  Users,
+  Ban,
+  Timer,
+  ShieldAlert,
+  Pin,
+  BellOff,
+  Archive,
+  ChevronDown,
+} from "lucide-react";
+import { formatDistanceToNowStrict } from "date-fns";
 import { motion } from "framer-motion";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useLocation } from "wouter";
+import { PresenceDot } from "@/components/Presence";
+import { PrivacySettings } from "@/components/PrivacySettings";
+import { CreateGroupDialog } from "@/components/CreateGroupDialog";
+import { MessageSearchResults } from "@/components/MessageSearch";
+import { ConversationMenu, formatMutedUntil } from "@/components/ConversationMenu";
+import { DeleteConversationDialog } from "@/components/DeleteConversationDialog";
+import { MIN_SEARCH_LENGTH } from "@/lib/search-index";
 
 export default function Home() {
   const { data: user, isLoading: userLoading } = useUser();
@@ -26,6 +57,42 @@ export default function Home() {
   // Conversations
   const { data: conversations = [] } = useConversations();
   const createConversation = useCreateConversation();
+  const previews = useLastMessagePreviews(conversations, keys?.privateKey ?? null);
+  const updatePreferences = useUpdateConversationPreferences();
+  const [showArchived, setShowArchived] = useState(false);
+  const deleteConversation = useDeleteConversation();
+  // Conversation awaiting confirmation to clear or delete
+  const [removing, setRemoving] = useState<{
+    id: string;
+    isGroup: boolean;
+    action: "clear" | "delete";
+  } | null>(null);
+
+  // Re-render now and then so relative times stay current
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    const timer = setInterval(() => setTick((tick) => tick + 1), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Member names for search hits and group previews
+  const names = useMemo(() => {
+    const byId: Record<string, string> = {};
+    conversations.forEach((conv) => {
+      conv.members?.forEach((m) => (byId[m.id] = m.name || "Unknown"));
+      if (conv.otherUser) byId[conv.otherUser.id] = conv.otherUser.name || "Unknown";
+    });
+    return byId;
+  }, [conversations]);
+  const senderPrefix = (conv: (typeof conversations)[number]) => {
+    const senderId = conv.lastMessage!.senderId;
+    if (senderId === user?.id) return "You: ";
+    return conv.isGroup ? `${names[senderId] ?? "Unknown"}: ` : "";
+  };
+  const conversationName = (conversationId: string) => {
+    const conv = conversations.find((c) => c.id === conversationId);
+    return (conv?.isGroup ? conv.name : conv?.otherUser?.name) || "Unknown";
+  };
 
   // Initialize encryption keys when user logs in
   useEffect(() => {
@@ -160,6 +227,104 @@ export default function Home() {
     );
   }
 
+  // Pinned on top, archived tucked away at the bottom
+  const pinned = conversations.filter((conv) => conv.isPinned && !conv.isArchived);
+  const unpinned = conversations.filter((conv) => !conv.isPinned && !conv.isArchived);
+  const archived = conversations.filter((conv) => conv.isArchived);
+
+  const renderConversation = (conv: (typeof conversations)[number]) => (
+    <ConversationMenu
+      key={conv.id}
+      conversation={conv}
+      onChange={(preferences) => updatePreferences.mutate({ conversationId: conv.id, ...preferences })}
+      onClearHistory={() => {
+        deleteConversation.reset();
+        setRemoving({ id: conv.id, isGroup: conv.isGroup, action: "clear" });
+      }}
+      onDelete={() => {
+        deleteConversation.reset();
+        setRemoving({ id: conv.id, isGroup: conv.isGroup, action: "delete" });
+      }}
+    >
+      <button
+        onClick={() => setLocation(`/chat/${conv.id}`)}
+        className="w-full p-4 flex items-center gap-3 hover:bg-secondary/50 transition-colors text-left border-b border-white/5 last:border-0"
+      >
+        <div className="relative w-12 h-12 rounded-full bg-secondary flex items-center justify-center">
+          {conv.isGroup ? (
+            <Users className="w-6 h-6 text-muted-foreground" />
+          ) : conv.otherUser?.avatarUrl ? (
+            <img src={conv.otherUser.avatarUrl} alt="" className="w-12 h-12 rounded-full" />
+          ) : (
+            <User className="w-6 h-6 text-muted-foreground" />
+          )}
+          {conv.otherUser && <PresenceDot presence={conv.otherUser.presence} />}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-baseline justify-between gap-2">
+            <div className={`truncate ${conv.unreadCount > 0 ? "font-semibold" : "font-medium"}`}>
+              {conv.isGroup ? conv.name : conv.otherUser?.name || "Unknown"}
+              {conv.isGroup && (
+                <span className="ml-2 text-xs font-normal text-muted-foreground">
+                  {conv.members.length} members
+                </span>
+              )}
+            </div>
+            <span className="shrink-0 flex items-center gap-1 text-xs text-muted-foreground">
+              {conv.mutedUntil && (
+                <span title={formatMutedUntil(conv.mutedUntil)}>
+                  <BellOff className="w-3 h-3" />
+                </span>
+              )}
+              {conv.isPinned && <Pin className="w-3 h-3" />}
+              {conv.lastMessage &&
+                formatDistanceToNowStrict(new Date(conv.lastMessage.createdAt), { addSuffix: true })}
+            </span>
+          </div>
+          <div className="text-sm text-muted-foreground truncate">
+            {conv.lastMessage?.deletedAt ? (
+              <span className="flex items-center gap-1 italic">
+                <Ban className="w-3 h-3" />
+                This message was deleted
+              </span>
+            ) : conv.lastMessage?.type === "system" ? (
+              <span className="flex items-center gap-1">
+                <Timer className="w-3 h-3" />
+                Disappearing messages changed
+              </span>
+            ) : conv.lastMessage && previews[conv.id] === null ? (
+              <span className="flex items-center gap-1 text-yellow-500">
+                <ShieldAlert className="w-3 h-3" />
+                Couldn't decrypt message
+              </span>
+            ) : conv.lastMessage && previews[conv.id] !== undefined ? (
+              <span className={conv.unreadCount > 0 ? "text-foreground" : undefined}>
+                {senderPrefix(conv)}
+                {previews[conv.id]}
+              </span>
+            ) : conv.lastMessage ? (
+              <span className="flex items-center gap-1">
+                <Lock className="w-3 h-3" />
+                Encrypted message
+              </span>
+            ) : (
+              "No messages yet"
+            )}
+          </div>
+        </div>
+        {conv.unreadCount > 0 && (
+          <span
+            className={`min-w-5 h-5 px-1.5 rounded-full text-xs font-semibold flex items-center justify-center ${
+              conv.mutedUntil ? "bg-muted-foreground/40 text-foreground" : "bg-primary text-white"
+            }`}
+          >
+            {conv.unreadCount > 99 ? "99+" : conv.unreadCount}
+          </span>
+        )}
+      </button>
+    </ConversationMenu>
+  );
+
   // Logged in - show chat list and search
   return (
     <div className="min-h-screen w-full bg-background flex flex-col">
@@ -173,6 +338,8 @@ export default function Home() {
             <User className="w-4 h-4" />
             <span>{user.name || user.email || user.phone}</span>
           </div>
+          <CreateGroupDialog />
+          <PrivacySettings user={user} />
           <button
             onClick={() => logout.mutate()}
             className="p-2 hover:bg-secondary rounded-lg transition-colors"
@@ -190,7 +357,7 @@ export default function Home() {
             type="text"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search by phone or email..."
+            placeholder="Search people by phone or email, or your messages..."
             className="w-full pl-10 pr-4 py-3 rounded-xl bg-secondary/50 border border-white/5 focus:outline-none focus:ring-2 focus:ring-primary"
           />
         </div>
@@ -223,48 +390,83 @@ export default function Home() {
           </div>
         )}
 
+        {/* Message Search (local index) */}
+        {searchQuery.trim().length >= MIN_SEARCH_LENGTH && (
+          <div className="glass-card rounded-xl overflow-hidden">
+            <div className="p-3 border-b border-white/5 text-sm text-muted-foreground flex items-center gap-2">
+              <Lock className="w-4 h-4" />
+              Messages on this device
+            </div>
+            <MessageSearchResults
+              query={searchQuery}
+              conversationName={conversationName}
+              senderName={(senderId) => (senderId === user.id ? "You" : names[senderId] ?? "Unknown")}
+              onSelect={(hit) =>
+                setLocation(`/chat/${hit.conversationId}?message=${encodeURIComponent(hit.messageId)}`)
+              }
+            />
+          </div>
+        )}
+
         {/* Conversations */}
         <div className="glass-card rounded-xl overflow-hidden">
-          <div className="p-3 border-b border-white/5 text-sm text-muted-foreground flex items-center gap-2">
-            <MessageCircle className="w-4 h-4" />
-            Conversations
-          </div>
+          {updatePreferences.error && (
+            <div className="p-3 border-b border-white/5 text-sm text-destructive">
+              {updatePreferences.error.message}
+            </div>
+          )}
+          {pinned.length > 0 && (
+            <>
+              <div className="p-3 border-b border-white/5 text-sm text-muted-foreground flex items-center gap-2">
+                <Pin className="w-4 h-4" />
+                Pinned
+              </div>
+              {pinned.map(renderConversation)}
+            </>
+          )}
+          {/* Hidden when everything is pinned or archived */}
+          {(unpinned.length > 0 || conversations.length === 0) && (
+            <div className="p-3 border-b border-white/5 text-sm text-muted-foreground flex items-center gap-2">
+              <MessageCircle className="w-4 h-4" />
+              Conversations
+            </div>
+          )}
           {conversations.length === 0 ? (
             <div className="p-8 text-center text-muted-foreground">
               <p>No conversations yet</p>
               <p className="text-sm mt-1">Search for users to start chatting</p>
             </div>
           ) : (
-            conversations.map((conv) => (
+            unpinned.map(renderConversation)
+          )}
+          {archived.length > 0 && (
+            <>
               <button
-                key={conv.id}
-                onClick={() => setLocation(`/chat/${conv.id}`)}
-                className="w-full p-4 flex items-center gap-3 hover:bg-secondary/50 transition-colors text-left border-b border-white/5 last:border-0"
+                onClick={() => setShowArchived(!showArchived)}
+                className="w-full p-3 border-t border-white/5 text-sm text-muted-foreground flex items-center gap-2 hover:bg-secondary/50 transition-colors"
               >
-                <div className="w-12 h-12 rounded-full bg-secondary flex items-center justify-center">
-                  {conv.otherUser.avatarUrl ? (
-                    <img src={conv.otherUser.avatarUrl} alt="" className="w-12 h-12 rounded-full" />
-                  ) : (
-                    <User className="w-6 h-6 text-muted-foreground" />
-                  )}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <div className="font-medium">{conv.otherUser.name || "Unknown"}</div>
-                  <div className="text-sm text-muted-foreground truncate">
-                    {conv.lastMessage ? (
-                      <span className="flex items-center gap-1">
-                        <Lock className="w-3 h-3" />
-                        Encrypted message
-                      </span>
-                    ) : (
-                      "No messages yet"
-                    )}
-                  </div>
-                </div>
+                <Archive className="w-4 h-4" />
+                Archived ({archived.length})
+                <ChevronDown className={`w-4 h-4 ml-auto transition-transform ${showArchived ? "rotate-180" : ""}`} />
               </button>
-            ))
+              {showArchived && archived.map(renderConversation)}
+            </>
           )}
         </div>
+
+        <DeleteConversationDialog
+          action={removing?.action ?? null}
+          onOpenChange={(open) => !open && setRemoving(null)}
+          canDeleteForBoth={!!removing && !removing.isGroup}
+          isPending={deleteConversation.isPending}
+          error={deleteConversation.error}
+          onConfirm={(scope) =>
+            deleteConversation.mutate(
+              { conversationId: removing!.id, scope },
+              { onSuccess: () => setRemoving(null) }
+            )
+          }
+        />
       </main>
     </div>
   );
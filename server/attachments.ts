@@ -0,0 +1,119 @@
+import { promises as fs } from "fs";
+import path from "path";
+import * as storage from "./storage";
+import { log } from "./log";
+
+/**
+ * Attachment storage
+ *
+ * - Attachments are encrypted on the client; drivers only ever see ciphertext
+ * - The driver is picked with ATTACHMENT_STORAGE (default "local")
+ * - Other backends (S3, GCS, ...) implement AttachmentStore and register a factory
+ * - Uploads no message claims within ATTACHMENT_UNCLAIMED_TTL_HOURS are swept
+ */
+
+export interface AttachmentStore {
+  put(id: string, data: Buffer): Promise<void>;
+  get(id: string): Promise<Buffer | null>; // null if missing
+  delete(id: string): Promise<void>;
+}
+
+const drivers: Record<string, () => AttachmentStore> = {
+  local: () => createLocalDiskStore(process.env.ATTACHMENTS_DIR || path.resolve("uploads", "attachments")),
+};
+
+let store: AttachmentStore | null = null;
+let sweeping = false;
+
+// How long an upload may wait for the message that carries it (offline sends included)
+export const UNCLAIMED_ATTACHMENT_TTL_MS =
+  parseInt(process.env.ATTACHMENT_UNCLAIMED_TTL_HOURS || "24", 10) * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// ============================================
+// Driver Selection
+// ============================================
+
+export function registerAttachmentDriver(name: string, factory: () => AttachmentStore) {
+  drivers[name] = factory;
+}
+
+export function getAttachmentStore(): AttachmentStore {
+  if (!store) {
+    const name = process.env.ATTACHMENT_STORAGE || "local";
+    const factory = drivers[name];
+    if (!factory) {
+      throw new Error(`Unknown attachment storage driver: ${name}`);
+    }
+    store = factory();
+  }
+  return store;
+}
+
+/**
+ * Remove the files of attachments whose rows were deleted. Failures are only
+ * logged; the rows are already gone.
+ */
+export async function deleteAttachmentFiles(ids: string[]) {
+  const store = getAttachmentStore();
+  await Promise.all(
+    ids.map((id) => store.delete(id).catch((err) => console.error(`Failed to delete attachment ${id}:`, err)))
+  );
+}
+
+// ============================================
+// Sweeper
+// ============================================
+
+/**
+ * Periodically delete uploads that never got attached to a message
+ */
+export function startAttachmentSweeper() {
+  const timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  timer.unref();
+  sweep();
+}
+
+async function sweep() {
+  if (sweeping) return;
+  sweeping = true;
+
+  try {
+    const ids = await storage.deleteUnclaimedAttachments();
+    await deleteAttachmentFiles(ids);
+    if (ids.length > 0) log(`Deleted ${ids.length} unclaimed attachments`, "sweeper");
+  } catch (e) {
+    console.error("Failed to delete unclaimed attachments:", e);
+  } finally {
+    sweeping = false;
+  }
+}
+
+// ============================================
+// Local Disk Driver
+// ============================================
+
+function createLocalDiskStore(dir: string): AttachmentStore {
+  // Ids come from the database, but never let one escape the directory
+  const fileFor = (id: string) => path.join(dir, path.basename(id));
+
+  return {
+    async put(id, data) {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(fileFor(id), data);
+    },
+
+    async get(id) {
+      try {
+        return await fs.readFile(fileFor(id));
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw e;
+      }
+    },
+
+    async delete(id) {
+      await fs.rm(fileFor(id), { force: true });
+    },
+  };
+}
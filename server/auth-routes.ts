@@ -2,6 +2,8 @@ import type { Express, Request, Response, NextFunction } from "express";
 import passport from "./auth";
 import { sendOtp, verifyOtp, getOrCreateUserByPhone } from "./otp";
 import * as storage from "./storage";
+import { disconnectSession } from "./realtime";
+import { publishPresence } from "./presence";
 import { z } from "zod";
 
 // Auth middleware - protects routes that require authentication
@@ -93,6 +95,8 @@ export function registerAuthRoutes(app: Express) {
                     name: user.name,
                     avatarUrl: user.avatarUrl,
                     publicKey: user.publicKey,
+                    hideLastSeen: user.hideLastSeen,
+                    sendReadReceipts: user.sendReadReceipts,
                 },
                 (err) => {
                     if (err) {
@@ -132,22 +136,29 @@ export function registerAuthRoutes(app: Express) {
                 name: req.user.name,
                 avatarUrl: req.user.avatarUrl,
                 publicKey: req.user.publicKey,
+                hideLastSeen: req.user.hideLastSeen,
+                sendReadReceipts: req.user.sendReadReceipts,
             });
         } else {
             res.status(401).json({ message: "Not authenticated" });
         }
     });
 
-    // Update user profile (name, publicKey)
+    // Update user profile (name, publicKey, privacy settings)
     app.patch("/api/auth/me", requireAuth, async (req, res) => {
         const updateSchema = z.object({
             name: z.string().min(1).max(100).optional(),
             publicKey: z.string().optional(),
+            hideLastSeen: z.boolean().optional(),
+            sendReadReceipts: z.boolean().optional(),
         });
 
         try {
             const data = updateSchema.parse(req.body);
             const user = await storage.updateUser(req.user!.id, data);
+            if (data.hideLastSeen !== undefined && data.hideLastSeen !== req.user!.hideLastSeen) {
+                await publishPresence(user.id);
+            }
             res.json({
                 id: user.id,
                 email: user.email,
@@ -155,6 +166,8 @@ export function registerAuthRoutes(app: Express) {
                 name: user.name,
                 avatarUrl: user.avatarUrl,
                 publicKey: user.publicKey,
+                hideLastSeen: user.hideLastSeen,
+                sendReadReceipts: user.sendReadReceipts,
             });
         } catch (err) {
             if (err instanceof z.ZodError) {
@@ -166,6 +179,7 @@ export function registerAuthRoutes(app: Express) {
 
     // Logout
     app.post("/api/auth/logout", (req, res) => {
+        const sessionId = req.sessionID;
         req.logout((err) => {
             if (err) {
                 return res.status(500).json({ message: "Logout failed" });
@@ -174,6 +188,8 @@ export function registerAuthRoutes(app: Express) {
                 if (sessionErr) {
                     console.error("Session destroy error:", sessionErr);
                 }
+                // Realtime sockets opened with this session would keep receiving events
+                disconnectSession(sessionId);
                 res.clearCookie("connect.sid");
                 res.json({ success: true });
             });
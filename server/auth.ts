@@ -12,6 +12,8 @@ declare global {
             name: string | null;
             avatarUrl: string | null;
             publicKey: string | null;
+            hideLastSeen: boolean;
+            sendReadReceipts: boolean;
         }
     }
 }
@@ -33,6 +35,8 @@ passport.deserializeUser(async (id: string, done) => {
                 name: true,
                 avatarUrl: true,
                 publicKey: true,
+                hideLastSeen: true,
+                sendReadReceipts: true,
             },
         });
         done(null, user as Express.User | null);
@@ -94,6 +98,8 @@ if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
                         name: user.name,
                         avatarUrl: user.avatarUrl,
                         publicKey: user.publicKey,
+                        hideLastSeen: user.hideLastSeen,
+                        sendReadReceipts: user.sendReadReceipts,
                     });
                 } catch (err) {
                     done(err as Error, undefined);
@@ -0,0 +1,39 @@
+import * as storage from "./storage";
+import { deleteAttachmentFiles } from "./attachments";
+import { log } from "./log";
+
+// How often expired disappearing messages are purged. Clients hide them at
+// expiry on their own, so this only bounds how long the ciphertext lingers.
+const SWEEP_INTERVAL_MS =
+  parseInt(process.env.MESSAGE_SWEEP_INTERVAL_SECONDS || "60", 10) * 1000;
+
+let sweeping = false;
+
+// ============================================
+// Sweeper
+// ============================================
+
+/**
+ * Periodically delete messages whose disappearing timer ran out
+ */
+export function startMessageSweeper() {
+  const timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  timer.unref();
+  sweep();
+}
+
+async function sweep() {
+  // A slow sweep shouldn't overlap the next one
+  if (sweeping) return;
+  sweeping = true;
+
+  try {
+    const { count, attachmentIds } = await storage.deleteExpiredMessages();
+    await deleteAttachmentFiles(attachmentIds);
+    if (count > 0) log(`Deleted ${count} expired messages`, "sweeper");
+  } catch (e) {
+    console.error("Failed to delete expired messages:", e);
+  } finally {
+    sweeping = false;
+  }
+}
@@ -4,7 +4,11 @@ import { createServer } from "http";
 import passport from "./auth";
 import { registerAuthRoutes } from "./auth-routes";
 import { registerRoutes } from "./routes";
+import { setupRealtime } from "./realtime";
+import { startMessageSweeper } from "./disappearing";
+import { startAttachmentSweeper } from "./attachments";
 import { serveStatic } from "./static";
+import { log } from "./log";
 
 const app = express();
 const httpServer = createServer(app);
@@ -30,35 +34,23 @@ const sessionSecret = process.env.SESSION_SECRET || "secure-chat-secret-key-chan
 // Secure cookies: true on HTTPS deployments (Vercel auto-sets), false for local HTTP testing
 const isSecureCookie = process.env.COOKIE_SECURE === "true" ||
   (process.env.NODE_ENV === "production" && process.env.VERCEL === "1");
-app.use(
-  session({
-    secret: sessionSecret,
-    resave: false,
-    saveUninitialized: false,
-    cookie: {
-      secure: isSecureCookie,
-      httpOnly: true,
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      sameSite: isSecureCookie ? "none" : "lax", // Required for cross-site cookies on HTTPS
-    },
-  })
-);
+const sessionMiddleware = session({
+  secret: sessionSecret,
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    secure: isSecureCookie,
+    httpOnly: true,
+    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    sameSite: isSecureCookie ? "none" : "lax", // Required for cross-site cookies on HTTPS
+  },
+});
+app.use(sessionMiddleware);
 
 // Passport initialization
 app.use(passport.initialize());
 app.use(passport.session());
 
-// Logging
-export function log(message: string, source = "express") {
-  const formattedTime = new Date().toLocaleTimeString("en-US", {
-    hour: "numeric",
-    minute: "2-digit",
-    second: "2-digit",
-    hour12: true,
-  });
-  console.log(`${formattedTime} [${source}] ${message}`);
-}
-
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -91,6 +83,13 @@ app.use((req, res, next) => {
   // Register API routes
   await registerRoutes(httpServer, app);
 
+  // Realtime WebSocket endpoint (shares the session cookie)
+  setupRealtime(httpServer, sessionMiddleware);
+
+  // Purge expired disappearing messages and unclaimed uploads
+  startMessageSweeper();
+  startAttachmentSweeper();
+
   // Error handler
   app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,114 @@
+import * as storage from "./storage";
+import { publishToUsers } from "./realtime";
+
+type PresenceStatus = "online" | "away" | "offline";
+
+// Users without a socket count as online for a while after an API call
+const ACTIVITY_WINDOW_MS = 2 * 60 * 1000;
+// Minimum gap between lastSeenAt writes caused by API activity
+const LAST_SEEN_WRITE_INTERVAL_MS = 60 * 1000;
+
+// Per-user socket states, keyed by connection id
+const connections = new Map<string, Map<number, "online" | "away">>();
+// Last authenticated API request per user
+const lastActivity = new Map<string, number>();
+const lastSeenWrites = new Map<string, number>();
+
+// ============================================
+// Presence Queries
+// ============================================
+
+export function getStatus(userId: string): PresenceStatus {
+  const states = connections.get(userId);
+  if (states && states.size > 0) {
+    return Array.from(states.values()).includes("online") ? "online" : "away";
+  }
+
+  const activeAt = lastActivity.get(userId);
+  if (activeAt && Date.now() - activeAt < ACTIVITY_WINDOW_MS) {
+    return "online";
+  }
+
+  return "offline";
+}
+
+/**
+ * Presence as seen by other users. lastSeenAt is withheld when the user
+ * has hidden it.
+ */
+export function getPresence(user: { id: string; lastSeenAt: Date | null; hideLastSeen: boolean }) {
+  const activeAt = lastActivity.get(user.id);
+  const lastSeenAt =
+    activeAt && (!user.lastSeenAt || activeAt > user.lastSeenAt.getTime())
+      ? new Date(activeAt)
+      : user.lastSeenAt;
+
+  return {
+    status: getStatus(user.id),
+    lastSeenAt: user.hideLastSeen ? null : lastSeenAt,
+  };
+}
+
+// ============================================
+// Presence Updates
+// ============================================
+
+// Record an authenticated API request
+export async function recordActivity(userId: string) {
+  const before = getStatus(userId);
+  const now = Date.now();
+  lastActivity.set(userId, now);
+
+  const lastWrite = lastSeenWrites.get(userId) ?? 0;
+  if (now - lastWrite > LAST_SEEN_WRITE_INTERVAL_MS) {
+    lastSeenWrites.set(userId, now);
+    await storage.updateUser(userId, { lastSeenAt: new Date(now) });
+  }
+
+  if (getStatus(userId) !== before) await publishPresence(userId);
+}
+
+// Track sockets opening and closing
+export async function handleConnectionChange(userId: string, connectionId: number, connected: boolean) {
+  const before = getStatus(userId);
+  const states = connections.get(userId) ?? new Map<number, "online" | "away">();
+
+  if (connected) {
+    states.set(connectionId, "online");
+    connections.set(userId, states);
+  } else {
+    states.delete(connectionId);
+    if (states.size === 0) {
+      connections.delete(userId);
+      lastActivity.delete(userId); // Closing the last socket means the user left
+      await storage.updateUser(userId, { lastSeenAt: new Date() });
+    }
+  }
+
+  if (getStatus(userId) !== before) await publishPresence(userId);
+}
+
+// A client reports its tab became hidden (away) or visible (online)
+export async function setConnectionStatus(
+  userId: string,
+  connectionId: number,
+  status: "online" | "away"
+) {
+  const states = connections.get(userId);
+  if (!states || !states.has(connectionId)) return;
+
+  const before = getStatus(userId);
+  states.set(connectionId, status);
+
+  if (getStatus(userId) !== before) await publishPresence(userId);
+}
+
+// Notify everyone who shares a conversation with the user (also after they
+// show or hide their last seen time)
+export async function publishPresence(userId: string) {
+  const user = await storage.getUserById(userId);
+  if (!user) return;
+
+  const partnerIds = await storage.getConversationPartnerIds(userId);
+  publishToUsers(partnerIds, { type: "presence", userId, presence: getPresence(user) });
+}
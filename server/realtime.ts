@@ -0,0 +1,192 @@
+import type { IncomingMessage, Server } from "http";
+import type { Request, Response, RequestHandler } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { api } from "@shared/routes";
+import {
+  REALTIME_SESSION_ENDED,
+  realtimeClientEventSchema,
+  type RealtimeClientEvent,
+  type RealtimeServerEvent,
+} from "@shared/schema";
+
+// Passport stores the serialized user id on the session
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: string };
+  }
+}
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Other sites allowed to open the socket (comma-separated origins, e.g. a separately hosted client)
+const ALLOWED_ORIGINS = (process.env.REALTIME_ALLOWED_ORIGINS || "")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+type ClientEventListener = (
+  userId: string,
+  event: RealtimeClientEvent,
+  connectionId: number
+) => void | Promise<void>;
+type ConnectionListener = (userId: string, connectionId: number, connected: boolean) => void;
+
+// Open sockets per user (a user may have several tabs/devices)
+const clients = new Map<string, Set<WebSocket>>();
+const socketSessions = new WeakMap<WebSocket, string>(); // Session each socket was opened with
+const clientEventListeners = new Set<ClientEventListener>();
+const connectionListeners = new Set<ConnectionListener>();
+let nextConnectionId = 1;
+
+// ============================================
+// Setup
+// ============================================
+
+// Browsers send the session cookie with cross-site upgrades too, so only the
+// app's own origin (or an allowed one) may open a socket with it
+function isAllowedOrigin(req: IncomingMessage) {
+  const origin = req.headers.origin;
+  if (!origin) return true; // Not a browser
+  if (ALLOWED_ORIGINS.includes(origin)) return true;
+
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+export function setupRealtime(httpServer: Server, sessionMiddleware: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  httpServer.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== api.realtime.path) return; // Leave other upgrades (e.g. Vite HMR) alone
+
+    if (!isAllowedOrigin(req)) {
+      socket.write("HTTP/1.1 403 Forbidden\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    // Reuse the express-session cookie to authenticate the socket
+    sessionMiddleware(req as Request, {} as Response, () => {
+      const userId = (req as Request).session?.passport?.user;
+      const sessionId = (req as Request).sessionID;
+      if (!userId) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const connectionId = nextConnectionId++;
+        addClient(userId, ws);
+        socketSessions.set(ws, sessionId);
+        alive.set(ws, true);
+        connectionListeners.forEach((listener) => listener(userId, connectionId, true));
+
+        ws.on("pong", () => alive.set(ws, true));
+        ws.on("message", (data) => handleClientMessage(userId, connectionId, data.toString()));
+        ws.on("close", () => {
+          removeClient(userId, ws);
+          connectionListeners.forEach((listener) => listener(userId, connectionId, false));
+        });
+        ws.on("error", () => ws.terminate());
+      });
+    });
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.set(ws, false);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on("close", () => clearInterval(heartbeat));
+}
+
+// ============================================
+// Publishing
+// ============================================
+
+// Push an event to every open socket of the given users
+export function publishToUsers(userIds: string[], event: RealtimeServerEvent) {
+  const payload = JSON.stringify(event);
+
+  Array.from(new Set(userIds)).forEach((userId) => {
+    clients.get(userId)?.forEach((ws) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(payload);
+      }
+    });
+  });
+}
+
+// The session is only checked on connect, so sockets must be closed when it ends
+export function disconnectSession(sessionId: string) {
+  clients.forEach((sockets) => {
+    sockets.forEach((ws) => {
+      if (socketSessions.get(ws) === sessionId) ws.close(REALTIME_SESSION_ENDED, "Session ended");
+    });
+  });
+}
+
+// ============================================
+// Client Events
+// ============================================
+
+// Handle events sent by clients. Listeners must authorize the event themselves.
+export function onClientEvent(listener: ClientEventListener) {
+  clientEventListeners.add(listener);
+}
+
+// Observe sockets opening and closing
+export function onConnectionChange(listener: ConnectionListener) {
+  connectionListeners.add(listener);
+}
+
+function handleClientMessage(userId: string, connectionId: number, raw: string) {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return;
+  }
+
+  const parsed = realtimeClientEventSchema.safeParse(data);
+  if (!parsed.success) return;
+
+  clientEventListeners.forEach((listener) => {
+    Promise.resolve(listener(userId, parsed.data, connectionId)).catch((err) => {
+      console.error("Realtime event handler error:", err);
+    });
+  });
+}
+
+// ============================================
+// Connection Registry
+// ============================================
+
+function addClient(userId: string, ws: WebSocket) {
+  const sockets = clients.get(userId) ?? new Set<WebSocket>();
+  sockets.add(ws);
+  clients.set(userId, sockets);
+}
+
+function removeClient(userId: string, ws: WebSocket) {
+  const sockets = clients.get(userId);
+  if (!sockets) return;
+
+  sockets.delete(ws);
+  if (sockets.size === 0) {
+    clients.delete(userId);
+  }
+}
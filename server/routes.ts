@@ -1,13 +1,170 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import type { Server } from "http";
 import * as storage from "./storage";
 import { requireAuth } from "./auth-routes";
+import { publishToUsers, onClientEvent, onConnectionChange } from "./realtime";
+import { setTyping } from "./typing";
+import * as presence from "./presence";
+import { getAttachmentStore, deleteAttachmentFiles, UNCLAIMED_ATTACHMENT_TTL_MS } from "./attachments";
+import {
+  MAX_ATTACHMENT_BYTES,
+  MAX_GROUP_MEMBERS,
+  addMembersSchema,
+  createGroupSchema,
+  distributeSenderKeySchema,
+  editMessageSchema,
+  parseGroupContent,
+  reactSchema,
+  sendMessageSchema,
+  setDisappearingTimerSchema,
+  conversationPreferencesSchema,
+  updateGroupSchema,
+  updateMemberSchema,
+  updateReceiptSchema,
+  unreadTotalSchema,
+} from "@shared/schema";
 import { z } from "zod";
 
+type ConversationAccess = {
+  isGroup: boolean;
+  user1Id: string | null;
+  user2Id: string | null;
+  members: { userId: string; role: string; joinedAt: Date }[];
+  userStates?: { userId: string; clearedAt: Date | null }[];
+};
+
+type ConversationUserRecord = {
+  id: string;
+  name: string | null;
+  avatarUrl: string | null;
+  publicKey: string | null;
+  lastSeenAt: Date | null;
+  hideLastSeen: boolean;
+};
+
+// Everyone in a conversation: the two users of a 1:1 chat, or the group's members
+function getParticipantIds(conversation: ConversationAccess) {
+  if (conversation.isGroup) {
+    return conversation.members.map((m) => m.userId);
+  }
+  return [conversation.user1Id, conversation.user2Id].filter((id): id is string => !!id);
+}
+
+// Remove the attachments nobody in the conversation can see any more
+async function purgeUnreachableAttachments(conversation: ConversationAccess & { id: string }) {
+  const ids = await storage.deleteUnreachableAttachments(conversation.id, getParticipantIds(conversation));
+  await deleteAttachmentFiles(ids);
+}
+
+// How long after sending a message its sender may still delete it for everyone
+const DELETE_FOR_EVERYONE_WINDOW_MS =
+  parseInt(process.env.DELETE_FOR_EVERYONE_WINDOW_MINUTES || "60", 10) * 60 * 1000;
+
+// Check if user is part of conversation
+function isParticipant(conversation: ConversationAccess, userId: string) {
+  return getParticipantIds(conversation).includes(userId);
+}
+
+function isGroupAdmin(conversation: ConversationAccess, userId: string) {
+  return conversation.members.some((m) => m.userId === userId && m.role === "admin");
+}
+
+// Group members only see messages from after they joined, and nobody sees
+// history they cleared
+function getVisibleSince(conversation: ConversationAccess, userId: string) {
+  return storage.getHistoryStart(
+    conversation.members.find((m) => m.userId === userId)?.joinedAt,
+    conversation.userStates?.find((s) => s.userId === userId)?.clearedAt
+  );
+}
+
+// Group messages must use the sender's key for the current generation, which
+// guarantees removed members never got the key. Returns an error message if not.
+async function checkGroupContent(
+  conversation: ConversationAccess & { id: string; keyGeneration: number },
+  senderId: string,
+  content: string
+) {
+  if (!conversation.isGroup) return null;
+
+  const generation = parseGroupContent(content)?.generation;
+  if (generation !== conversation.keyGeneration) {
+    return "Sender key generation is out of date";
+  }
+  if (!(await storage.hasSenderKey(conversation.id, senderId, generation))) {
+    return "Sender key has not been distributed";
+  }
+  return null;
+}
+
+// Safe public fields of a participant, with live presence
+function toConversationUser(user: ConversationUserRecord) {
+  return {
+    id: user.id,
+    name: user.name,
+    avatarUrl: user.avatarUrl,
+    publicKey: user.publicKey,
+    presence: presence.getPresence(user),
+  };
+}
+
+// Shared shape of 1:1 and group conversations as seen by `userId`
+function toConversationInfo(
+  conversation: {
+    id: string;
+    isGroup: boolean;
+    name: string | null;
+    keyGeneration: number;
+    disappearAfterSeconds: number | null;
+    user1: ConversationUserRecord | null;
+    user2: ConversationUserRecord | null;
+    members: { role: string; user: ConversationUserRecord }[];
+  },
+  userId: string
+) {
+  const otherUser = conversation.isGroup
+    ? null
+    : conversation.user1?.id === userId
+      ? conversation.user2
+      : conversation.user1;
+
+  return {
+    id: conversation.id,
+    isGroup: conversation.isGroup,
+    name: conversation.name,
+    keyGeneration: conversation.keyGeneration,
+    otherUser: otherUser ? toConversationUser(otherUser) : null,
+    members: conversation.members.map((m) => ({ ...toConversationUser(m.user), role: m.role })),
+    disappearAfterSeconds: conversation.disappearAfterSeconds,
+  };
+}
+
+// Shape a participant's cursors for others, honoring their read receipt setting
+function toReceipt(
+  state: { userId: string; deliveredAt: Date | null; readAt: Date | null },
+  sendReadReceipts: boolean
+) {
+  return {
+    userId: state.userId,
+    deliveredAt: state.deliveredAt,
+    readAt: sendReadReceipts ? state.readAt : null,
+  };
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  // Any authenticated API call counts as activity for presence
+  app.use("/api", (req, _res, next) => {
+    if (req.isAuthenticated()) {
+      presence.recordActivity(req.user!.id).catch((err) => {
+        console.error("Failed to record activity:", err);
+      });
+    }
+    next();
+  });
+
   // ============================================
   // User Search Routes
   // ============================================
@@ -58,33 +215,53 @@ export async function registerRoutes(
   app.get("/api/conversations", requireAuth, async (req, res) => {
     const conversations = await storage.getUserConversations(req.user!.id);
 
-    // Transform to include the "other" user in each conversation
+    const unreadCounts = await storage.countUnreadMessages(
+      req.user!.id,
+      conversations.map((conv) => ({
+        id: conv.id,
+        readAt: conv.userStates[0]?.readAt ?? null,
+        since: getVisibleSince(conv, req.user!.id),
+      }))
+    );
+
+    // Transform to include the "other" user (or group members) in each conversation
     const result = conversations.map((conv) => {
-      const otherUser = conv.user1.id === req.user!.id ? conv.user2 : conv.user1;
-      const lastMessage = conv.messages[0];
+      const since = getVisibleSince(conv, req.user!.id);
+      const lastMessage = since && conv.messages[0]?.createdAt < since ? undefined : conv.messages[0];
+      const state = conv.userStates[0];
+
+      // Deleted from my list until someone writes again
+      if (state?.deletedAt && !lastMessage) return null;
 
       return {
-        id: conv.id,
-        otherUser: {
-          id: otherUser.id,
-          name: otherUser.name,
-          avatarUrl: otherUser.avatarUrl,
-          publicKey: otherUser.publicKey,
-        },
+        ...toConversationInfo(conv, req.user!.id),
         lastMessage: lastMessage
           ? {
             id: lastMessage.id,
-            content: lastMessage.content, // Still encrypted
+            type: lastMessage.type,
+            content: lastMessage.content, // Still encrypted (plaintext for system notices)
             iv: lastMessage.iv,
             senderId: lastMessage.senderId,
             createdAt: lastMessage.createdAt,
+            deletedAt: lastMessage.deletedAt,
           }
           : null,
+        unreadCount: unreadCounts.get(conv.id) ?? 0,
+        isPinned: !!state?.pinnedAt,
+        // New activity brings an archived conversation back
+        isArchived: !!state?.archivedAt && !(lastMessage && lastMessage.createdAt > state.archivedAt),
+        mutedUntil: state?.mutedUntil && state.mutedUntil > new Date() ? state.mutedUntil : null,
         updatedAt: conv.updatedAt,
       };
     });
 
-    res.json(result);
+    res.json(result.filter((conv) => conv !== null));
+  });
+
+  // Total unread messages across all conversations (tab badge)
+  app.get("/api/conversations/unread", requireAuth, async (req, res) => {
+    const total = await storage.getUnreadTotal(req.user!.id);
+    res.json(unreadTotalSchema.parse({ total }));
   });
 
   // Create or get conversation with another user
@@ -104,15 +281,16 @@ export async function registerRoutes(
       }
 
       const conversation = await storage.createOrGetConversation(req.user!.id, userId);
+      await storage.restoreConversationForUser(conversation.id, req.user!.id);
 
       res.status(201).json({
         id: conversation.id,
-        otherUser: {
-          id: otherUser.id,
-          name: otherUser.name,
-          avatarUrl: otherUser.avatarUrl,
-          publicKey: otherUser.publicKey,
-        },
+        isGroup: false,
+        name: null,
+        keyGeneration: 0,
+        otherUser: toConversationUser(otherUser),
+        members: [],
+        disappearAfterSeconds: conversation.disappearAfterSeconds,
         createdAt: conversation.createdAt,
       });
     } catch (err) {
@@ -125,94 +303,982 @@ export async function registerRoutes(
 
   // Get conversation by ID
   app.get("/api/conversations/:id", requireAuth, async (req, res) => {
+    const conversation = await storage.getConversationDetails(req.params.id as string);
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+
+    if (!isParticipant(conversation, req.user!.id)) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    res.json({
+      ...toConversationInfo(conversation, req.user!.id),
+      createdAt: conversation.createdAt,
+    });
+  });
+
+  // Set the disappearing messages timer (any participant); posts a system notice
+  app.put("/api/conversations/:id/disappearing", requireAuth, async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id as string);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      if (!isParticipant(conversation, req.user!.id)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { seconds } = setDisappearingTimerSchema.parse(req.body);
+
+      if (seconds !== conversation.disappearAfterSeconds) {
+        await storage.updateConversation(conversation.id, { disappearAfterSeconds: seconds });
+
+        const notice = await storage.createMessage({
+          conversationId: conversation.id,
+          senderId: req.user!.id,
+          type: "system",
+          content: JSON.stringify({ event: "disappearing-timer", seconds }),
+          iv: "",
+        });
+
+        const participantIds = getParticipantIds(conversation);
+        publishToUsers(participantIds, { type: "message:new", message: notice });
+        publishToUsers(participantIds, { type: "conversation:updated", conversationId: conversation.id });
+      }
+
+      res.json({ disappearAfterSeconds: seconds });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid disappearing messages timer" });
+      }
+      throw err;
+    }
+  });
+
+  // Pin, archive or mute a conversation; only affects the current user's list
+  app.patch("/api/conversations/:id/preferences", requireAuth, async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id as string);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      if (!isParticipant(conversation, req.user!.id)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { pinned, archived, mutedUntil } = conversationPreferencesSchema.parse(req.body);
+      if (pinned && archived) {
+        return res.status(400).json({ message: "A conversation can't be both pinned and archived" });
+      }
+
+      const state = await storage.updateConversationPreferences(conversation.id, req.user!.id, {
+        pinned,
+        archived,
+        mutedUntil: typeof mutedUntil === "string" ? new Date(mutedUntil) : mutedUntil,
+      });
+
+      // The user's other tabs and devices
+      publishToUsers([req.user!.id], { type: "conversation:updated", conversationId: conversation.id });
+
+      res.json({
+        isPinned: !!state.pinnedAt,
+        isArchived: !!state.archivedAt,
+        mutedUntil: state.mutedUntil,
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid conversation preferences" });
+      }
+      throw err;
+    }
+  });
+
+  // Clear the conversation's history for me (others keep theirs)
+  app.post("/api/conversations/:id/clear", requireAuth, async (req, res) => {
     const conversation = await storage.getConversation(req.params.id as string);
     if (!conversation) {
       return res.status(404).json({ message: "Conversation not found" });
     }
 
-    // Check if user is part of conversation
-    if (conversation.user1Id !== req.user!.id && conversation.user2Id !== req.user!.id) {
+    if (!isParticipant(conversation, req.user!.id)) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    await storage.clearConversationHistory(conversation.id, req.user!.id);
+    await purgeUnreachableAttachments(conversation);
+
+    // My other tabs/devices drop it too
+    publishToUsers([req.user!.id], { type: "conversation:cleared", conversationId: conversation.id });
+
+    res.status(204).end();
+  });
+
+  // Delete the conversation for me: clears the history and removes it from my
+  // list until a new message arrives
+  app.post("/api/conversations/:id/hide", requireAuth, async (req, res) => {
+    const conversation = await storage.getConversation(req.params.id as string);
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+
+    if (!isParticipant(conversation, req.user!.id)) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    await storage.deleteConversationForUser(conversation.id, req.user!.id);
+    await purgeUnreachableAttachments(conversation);
+
+    publishToUsers([req.user!.id], { type: "conversation:cleared", conversationId: conversation.id });
+
+    res.status(204).end();
+  });
+
+  // Delete a 1:1 conversation for both people, messages and attachments included.
+  // Writing to each other again starts a new conversation.
+  app.delete("/api/conversations/:id", requireAuth, async (req, res) => {
+    const conversation = await storage.getConversation(req.params.id as string);
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+
+    if (!isParticipant(conversation, req.user!.id)) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    if (conversation.isGroup) {
+      return res.status(400).json({ message: "Groups can't be deleted for everyone" });
+    }
+
+    const participantIds = getParticipantIds(conversation);
+    const attachmentIds = await storage.deleteConversation(conversation.id);
+    await deleteAttachmentFiles(attachmentIds);
+
+    publishToUsers(participantIds, { type: "conversation:deleted", conversationId: conversation.id });
+
+    res.status(204).end();
+  });
+
+  // ============================================
+  // Group Routes
+  // ============================================
+
+  // Create a group with the current user as admin
+  app.post("/api/groups", requireAuth, async (req, res) => {
+    try {
+      const { name, memberIds } = createGroupSchema.parse(req.body);
+      const ids = Array.from(new Set(memberIds)).filter((id) => id !== req.user!.id);
+
+      const users = await storage.getUsersByIds(ids);
+      if (ids.length === 0 || users.length !== ids.length) {
+        return res.status(400).json({ message: "Invalid group members" });
+      }
+
+      const group = await storage.createGroupConversation(req.user!.id, name, ids);
+      const details = await storage.getConversationDetails(group.id);
+
+      publishToUsers(ids, { type: "conversation:updated", conversationId: group.id });
+
+      res.status(201).json({
+        ...toConversationInfo(details!, req.user!.id),
+        createdAt: group.createdAt,
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid group" });
+      }
+      throw err;
+    }
+  });
+
+  // Rename a group (admins only)
+  app.patch("/api/groups/:id", requireAuth, async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id as string);
+      if (!conversation || !conversation.isGroup) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+
+      if (!isGroupAdmin(conversation, req.user!.id)) {
+        return res.status(403).json({ message: "Only admins can rename the group" });
+      }
+
+      const { name } = updateGroupSchema.parse(req.body);
+      await storage.updateConversation(conversation.id, { name });
+
+      publishToUsers(getParticipantIds(conversation), {
+        type: "conversation:updated",
+        conversationId: conversation.id,
+      });
+
+      res.json({ id: conversation.id, name });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid group name" });
+      }
+      throw err;
+    }
+  });
+
+  // Add members (admins only)
+  app.post("/api/groups/:id/members", requireAuth, async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id as string);
+      if (!conversation || !conversation.isGroup) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+
+      if (!isGroupAdmin(conversation, req.user!.id)) {
+        return res.status(403).json({ message: "Only admins can add members" });
+      }
+
+      const { userIds } = addMembersSchema.parse(req.body);
+      const memberIds = getParticipantIds(conversation);
+      const ids = Array.from(new Set(userIds)).filter((id) => !memberIds.includes(id));
+
+      if (memberIds.length + ids.length > MAX_GROUP_MEMBERS) {
+        return res.status(400).json({ message: `Groups are limited to ${MAX_GROUP_MEMBERS} members` });
+      }
+
+      const users = await storage.getUsersByIds(ids);
+      if (users.length !== ids.length) {
+        return res.status(400).json({ message: "Invalid group members" });
+      }
+
+      await storage.addConversationMembers(conversation.id, ids);
+
+      publishToUsers([...memberIds, ...ids], {
+        type: "conversation:updated",
+        conversationId: conversation.id,
+      });
+
+      res.status(201).json({ added: ids });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid group members" });
+      }
+      throw err;
+    }
+  });
+
+  // Change a member's role (admins only)
+  app.patch("/api/groups/:id/members/:userId", requireAuth, async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id as string);
+      if (!conversation || !conversation.isGroup) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+
+      if (!isGroupAdmin(conversation, req.user!.id)) {
+        return res.status(403).json({ message: "Only admins can change roles" });
+      }
+
+      const userId = req.params.userId as string;
+      if (!isParticipant(conversation, userId)) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      const { role } = updateMemberSchema.parse(req.body);
+
+      // Keep at least one admin around
+      const admins = conversation.members.filter((m) => m.role === "admin");
+      if (role === "member" && admins.length === 1 && admins[0].userId === userId) {
+        return res.status(400).json({ message: "A group needs at least one admin" });
+      }
+
+      await storage.updateConversationMember(conversation.id, userId, role);
+
+      publishToUsers(getParticipantIds(conversation), {
+        type: "conversation:updated",
+        conversationId: conversation.id,
+      });
+
+      res.json({ userId, role });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+      throw err;
+    }
+  });
+
+  // Remove a member (admins only; members leave via /leave)
+  app.delete("/api/groups/:id/members/:userId", requireAuth, async (req, res) => {
+    const conversation = await storage.getConversation(req.params.id as string);
+    if (!conversation || !conversation.isGroup) {
+      return res.status(404).json({ message: "Group not found" });
+    }
+
+    if (!isGroupAdmin(conversation, req.user!.id)) {
+      return res.status(403).json({ message: "Only admins can remove members" });
+    }
+
+    const userId = req.params.userId as string;
+    if (userId === req.user!.id) {
+      return res.status(400).json({ message: "Leave the group instead" });
+    }
+
+    if (!isParticipant(conversation, userId)) {
+      return res.status(404).json({ message: "Member not found" });
+    }
+
+    await storage.removeConversationMember(conversation.id, userId);
+
+    // The removed member is told too so the group disappears from their list
+    publishToUsers(getParticipantIds(conversation), {
+      type: "conversation:updated",
+      conversationId: conversation.id,
+    });
+
+    res.status(204).end();
+  });
+
+  // Leave a group. The last member leaving deletes it.
+  app.post("/api/groups/:id/leave", requireAuth, async (req, res) => {
+    const conversation = await storage.getConversation(req.params.id as string);
+    if (!conversation || !conversation.isGroup) {
+      return res.status(404).json({ message: "Group not found" });
+    }
+
+    if (!isParticipant(conversation, req.user!.id)) {
       return res.status(403).json({ message: "Access denied" });
     }
 
-    // Get the other user's details
-    const otherUserId =
-      conversation.user1Id === req.user!.id ? conversation.user2Id : conversation.user1Id;
-    const otherUser = await storage.getUserById(otherUserId);
+    const { attachmentIds } = await storage.removeConversationMember(conversation.id, req.user!.id);
+    await deleteAttachmentFiles(attachmentIds);
+    setTyping(conversation.id, req.user!.id, getParticipantIds(conversation), false);
+
+    publishToUsers(getParticipantIds(conversation), {
+      type: "conversation:updated",
+      conversationId: conversation.id,
+    });
+
+    res.status(204).end();
+  });
+
+  // ============================================
+  // Sender Key Routes (group E2E encryption)
+  // ============================================
+
+  // Chain keys other members (and this user) shared with the current user
+  app.get("/api/groups/:id/sender-keys", requireAuth, async (req, res) => {
+    const conversation = await storage.getConversation(req.params.id as string);
+    if (!conversation || !conversation.isGroup) {
+      return res.status(404).json({ message: "Group not found" });
+    }
+
+    if (!isParticipant(conversation, req.user!.id)) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const keys = await storage.getSenderKeysForRecipient(conversation.id, req.user!.id);
 
     res.json({
-      id: conversation.id,
-      otherUser: otherUser
-        ? {
-          id: otherUser.id,
-          name: otherUser.name,
-          avatarUrl: otherUser.avatarUrl,
-          publicKey: otherUser.publicKey,
-        }
-        : null,
-      createdAt: conversation.createdAt,
+      generation: conversation.keyGeneration,
+      keys: keys.map((key) => ({
+        senderId: key.senderId,
+        senderPublicKey: key.sender.publicKey,
+        generation: key.generation,
+        content: key.content, // Still encrypted
+        iv: key.iv,
+      })),
     });
   });
 
+  // Distribute my chain key for the current generation to every member
+  app.post("/api/groups/:id/sender-keys", requireAuth, async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id as string);
+      if (!conversation || !conversation.isGroup) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+
+      if (!isParticipant(conversation, req.user!.id)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { generation, shares } = distributeSenderKeySchema.parse(req.body);
+
+      if (generation !== conversation.keyGeneration) {
+        return res.status(409).json({ message: "Sender key generation is out of date" });
+      }
+
+      // Exactly one share per current member, so nobody is left unable to decrypt
+      const memberIds = getParticipantIds(conversation);
+      const recipientIds = new Set(shares.map((share) => share.recipientId));
+      if (
+        recipientIds.size !== shares.length ||
+        recipientIds.size !== memberIds.length ||
+        !memberIds.every((id) => recipientIds.has(id))
+      ) {
+        return res.status(400).json({ message: "Sender key must be shared with every member" });
+      }
+
+      try {
+        await storage.createSenderKeys(conversation.id, req.user!.id, generation, shares);
+      } catch (err) {
+        if (storage.isUniqueConstraintError(err)) {
+          return res.status(409).json({ message: "Sender key already distributed" });
+        }
+        throw err;
+      }
+
+      publishToUsers(memberIds, {
+        type: "sender-key:new",
+        conversationId: conversation.id,
+        senderId: req.user!.id,
+        generation,
+      });
+
+      res.status(201).json({ generation });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid sender key" });
+      }
+      throw err;
+    }
+  });
+
   // ============================================
   // Message Routes
   // ============================================
 
-  // Get messages in a conversation
+  // Get messages in a conversation, newest page first (cursor = oldest message id seen),
+  // or with ?after=<message id> only the messages created since then
   app.get("/api/conversations/:id/messages", requireAuth, async (req, res) => {
     const conversation = await storage.getConversation(req.params.id as string);
     if (!conversation) {
       return res.status(404).json({ message: "Conversation not found" });
     }
 
-    // Check if user is part of conversation
-    if (conversation.user1Id !== req.user!.id && conversation.user2Id !== req.user!.id) {
+    if (!isParticipant(conversation, req.user!.id)) {
       return res.status(403).json({ message: "Access denied" });
     }
 
     const cursor = req.query.cursor as string | undefined;
+    const after = req.query.after as string | undefined;
     const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+    const viewer = { userId: req.user!.id, since: getVisibleSince(conversation, req.user!.id) };
+
+    // Sync mode: only messages newer than `after`
+    if (after) {
+      const anchor = await storage.getMessage(after);
+      if (!anchor || anchor.conversationId !== conversation.id) {
+        return res.status(404).json({ message: "Message not found" });
+      }
 
-    const messages = await storage.getMessages(req.params.id as string, cursor, limit);
+      const delta = await storage.getMessagesAfter(conversation.id, viewer, anchor, limit);
+      return res.json(delta);
+    }
+
+    const page = await storage.getMessages(req.params.id as string, viewer, cursor, limit);
 
-    res.json(messages);
+    res.json(page);
   });
 
   // Send a message (encrypted content from client)
   app.post("/api/conversations/:id/messages", requireAuth, async (req, res) => {
-    const schema = z.object({
-      content: z.string(), // Encrypted ciphertext
-      iv: z.string(), // IV for decryption
+    try {
+      const conversation = await storage.getConversation(req.params.id as string);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      if (!isParticipant(conversation, req.user!.id)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // clientId in the body takes precedence over the Idempotency-Key header
+      const { content, iv, clientId, replyToId, attachmentId } = sendMessageSchema.parse({
+        clientId: req.get("Idempotency-Key"),
+        ...req.body,
+      });
+
+      // A replayed request returns the message created the first time
+      const replayMessage = async () => {
+        const existing = await storage.getMessageByClientId(req.user!.id, clientId!);
+        if (!existing) return false;
+        if (existing.conversationId !== conversation.id) {
+          res.status(409).json({ message: "Client message id already used" });
+        } else {
+          res.status(200).json(existing);
+        }
+        return true;
+      };
+
+      if (clientId && (await replayMessage())) return;
+
+      // Only messages the sender can see in this conversation can be quoted
+      if (replyToId) {
+        const quoted = await storage.getMessage(replyToId);
+        const since = getVisibleSince(conversation, req.user!.id);
+        if (
+          !quoted ||
+          quoted.conversationId !== conversation.id ||
+          quoted.type === "system" ||
+          (since && quoted.createdAt < since)
+        ) {
+          return res.status(400).json({ message: "Replied-to message not found" });
+        }
+      }
+
+      // Only my own upload for this conversation that no message carries yet
+      if (attachmentId) {
+        const attachment = await storage.getAttachment(attachmentId);
+        if (
+          !attachment ||
+          attachment.conversationId !== conversation.id ||
+          attachment.uploaderId !== req.user!.id ||
+          attachment.messageId
+        ) {
+          return res.status(400).json({ message: "Attachment not found" });
+        }
+      }
+
+      const keyError = await checkGroupContent(conversation, req.user!.id, content);
+      if (keyError) {
+        return res.status(409).json({ message: keyError });
+      }
+
+      let message;
+      try {
+        message = await storage.createMessage({
+          conversationId: req.params.id as string,
+          senderId: req.user!.id,
+          content,
+          iv,
+          clientId,
+          replyToId,
+          attachmentId,
+        });
+      } catch (err) {
+        // Lost a race with a concurrent retry of the same message
+        if (clientId && storage.isUniqueConstraintError(err) && (await replayMessage())) return;
+        throw err;
+      }
+
+      const participantIds = getParticipantIds(conversation);
+
+      // Push to all participants' open sockets (sender may have other tabs)
+      publishToUsers(participantIds, { type: "message:new", message });
+      setTyping(conversation.id, req.user!.id, participantIds, false);
+
+      res.status(201).json(message);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid message format" });
+      }
+      throw err;
+    }
+  });
+
+  // Edit my own message (new ciphertext from client; the old one is kept as a revision)
+  app.patch("/api/conversations/:id/messages/:messageId", requireAuth, async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id as string);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      if (!isParticipant(conversation, req.user!.id)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const message = await storage.getMessage(req.params.messageId as string);
+      if (!message || message.conversationId !== conversation.id) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      if (message.senderId !== req.user!.id || message.type === "system") {
+        return res.status(403).json({ message: "You can only edit your own messages" });
+      }
+
+      if (message.deletedAt) {
+        return res.status(409).json({ message: "Message was deleted" });
+      }
+
+      const { content, iv } = editMessageSchema.parse(req.body);
+
+      const keyError = await checkGroupContent(conversation, req.user!.id, content);
+      if (keyError) {
+        return res.status(409).json({ message: keyError });
+      }
+
+      const updated = await storage.editMessage(message.id, { content, iv });
+
+      publishToUsers(getParticipantIds(conversation), { type: "message:updated", message: updated });
+
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid message format" });
+      }
+      throw err;
+    }
+  });
+
+  // Delete for everyone (sender only, within the time window); leaves a tombstone
+  app.delete("/api/conversations/:id/messages/:messageId", requireAuth, async (req, res) => {
+    const conversation = await storage.getConversation(req.params.id as string);
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+
+    if (!isParticipant(conversation, req.user!.id)) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const message = await storage.getMessage(req.params.messageId as string);
+    if (!message || message.conversationId !== conversation.id) {
+      return res.status(404).json({ message: "Message not found" });
+    }
+
+    if (message.senderId !== req.user!.id || message.type === "system") {
+      return res.status(403).json({ message: "You can only delete your own messages for everyone" });
+    }
+
+    if (message.deletedAt) {
+      return res.json(message);
+    }
+
+    if (Date.now() - message.createdAt.getTime() > DELETE_FOR_EVERYONE_WINDOW_MS) {
+      return res.status(403).json({
+        message: `Messages can only be deleted for everyone within ${DELETE_FOR_EVERYONE_WINDOW_MS / 60000} minutes`,
+      });
+    }
+
+    const { message: deleted, attachmentIds } = await storage.deleteMessageForEveryone(message.id);
+    await deleteAttachmentFiles(attachmentIds);
+
+    // Clients swap the cached message for the tombstone
+    publishToUsers(getParticipantIds(conversation), { type: "message:updated", message: deleted });
+
+    res.json(deleted);
+  });
+
+  // Delete for me: hide the message from my own view only
+  app.post("/api/conversations/:id/messages/:messageId/hide", requireAuth, async (req, res) => {
+    const conversation = await storage.getConversation(req.params.id as string);
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+
+    if (!isParticipant(conversation, req.user!.id)) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const message = await storage.getMessage(req.params.messageId as string);
+    if (!message || message.conversationId !== conversation.id) {
+      return res.status(404).json({ message: "Message not found" });
+    }
+
+    await storage.hideMessage(message.id, req.user!.id);
+    await purgeUnreachableAttachments(conversation);
+
+    // My other tabs/devices drop it too
+    publishToUsers([req.user!.id], {
+      type: "message:hidden",
+      conversationId: conversation.id,
+      messageId: message.id,
     });
 
+    res.status(204).end();
+  });
+
+  // React to a message (replaces my previous reaction); the emoji is encrypted
+  app.put("/api/conversations/:id/messages/:messageId/reactions", requireAuth, async (req, res) => {
     try {
       const conversation = await storage.getConversation(req.params.id as string);
       if (!conversation) {
         return res.status(404).json({ message: "Conversation not found" });
       }
 
-      // Check if user is part of conversation
-      if (conversation.user1Id !== req.user!.id && conversation.user2Id !== req.user!.id) {
+      if (!isParticipant(conversation, req.user!.id)) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const { content, iv } = schema.parse(req.body);
+      const message = await storage.getMessage(req.params.messageId as string);
+      const since = getVisibleSince(conversation, req.user!.id);
+      if (!message || message.conversationId !== conversation.id || (since && message.createdAt < since)) {
+        return res.status(404).json({ message: "Message not found" });
+      }
 
-      const message = await storage.createMessage({
-        conversationId: req.params.id as string,
-        senderId: req.user!.id,
-        content,
-        iv,
+      if (message.type === "system") {
+        return res.status(400).json({ message: "Can't react to system messages" });
+      }
+
+      if (message.deletedAt) {
+        return res.status(409).json({ message: "Message was deleted" });
+      }
+
+      const { content, iv } = reactSchema.parse(req.body);
+
+      const keyError = await checkGroupContent(conversation, req.user!.id, content);
+      if (keyError) {
+        return res.status(409).json({ message: keyError });
+      }
+
+      await storage.setReaction(message.id, req.user!.id, { content, iv });
+      const reactions = await storage.getReactions(message.id);
+
+      publishToUsers(getParticipantIds(conversation), {
+        type: "reaction:updated",
+        conversationId: conversation.id,
+        messageId: message.id,
+        reactions,
       });
 
-      res.status(201).json(message);
+      res.json(reactions);
     } catch (err) {
       if (err instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid message format" });
+        return res.status(400).json({ message: "Invalid reaction format" });
+      }
+      throw err;
+    }
+  });
+
+  // Remove my reaction from a message
+  app.delete("/api/conversations/:id/messages/:messageId/reactions", requireAuth, async (req, res) => {
+    const conversation = await storage.getConversation(req.params.id as string);
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+
+    if (!isParticipant(conversation, req.user!.id)) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const message = await storage.getMessage(req.params.messageId as string);
+    if (!message || message.conversationId !== conversation.id) {
+      return res.status(404).json({ message: "Message not found" });
+    }
+
+    await storage.removeReaction(message.id, req.user!.id);
+    const reactions = await storage.getReactions(message.id);
+
+    publishToUsers(getParticipantIds(conversation), {
+      type: "reaction:updated",
+      conversationId: conversation.id,
+      messageId: message.id,
+      reactions,
+    });
+
+    res.json(reactions);
+  });
+
+  // Earlier encrypted versions of an edited message
+  app.get("/api/conversations/:id/messages/:messageId/revisions", requireAuth, async (req, res) => {
+    const conversation = await storage.getConversation(req.params.id as string);
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+
+    if (!isParticipant(conversation, req.user!.id)) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const message = await storage.getMessage(req.params.messageId as string);
+    const since = getVisibleSince(conversation, req.user!.id);
+    if (!message || message.conversationId !== conversation.id || (since && message.createdAt < since)) {
+      return res.status(404).json({ message: "Message not found" });
+    }
+
+    const revisions = await storage.getMessageRevisions(message.id);
+
+    res.json(
+      revisions.map((revision) => ({
+        id: revision.id,
+        senderId: message.senderId,
+        content: revision.content, // Still encrypted
+        iv: revision.iv,
+        createdAt: revision.createdAt,
+      }))
+    );
+  });
+
+  // ============================================
+  // Attachment Routes
+  // ============================================
+
+  // Upload an encrypted file for a conversation (raw ciphertext body).
+  // The server never sees the key; it only stores the bytes for participants.
+  app.post(
+    "/api/conversations/:id/attachments",
+    requireAuth,
+    express.raw({ type: "application/octet-stream", limit: MAX_ATTACHMENT_BYTES + 16 }),
+    async (req, res) => {
+      const conversation = await storage.getConversation(req.params.id as string);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      if (!isParticipant(conversation, req.user!.id)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "Expected encrypted file contents" });
+      }
+
+      const attachment = await storage.createAttachment({
+        conversationId: conversation.id,
+        uploaderId: req.user!.id,
+        size: req.body.length,
+        expiresAt: new Date(Date.now() + UNCLAIMED_ATTACHMENT_TTL_MS),
+      });
+
+      try {
+        await getAttachmentStore().put(attachment.id, req.body);
+      } catch (err) {
+        await storage.deleteAttachment(attachment.id);
+        throw err;
+      }
+
+      res.status(201).json({ id: attachment.id, size: attachment.size });
+    }
+  );
+
+  // Download an attachment's ciphertext (participants of its conversation only)
+  app.get("/api/attachments/:id", requireAuth, async (req, res) => {
+    const attachment = await storage.getAttachment(req.params.id as string);
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+
+    const conversation = await storage.getConversation(attachment.conversationId);
+    if (!conversation || !isParticipant(conversation, req.user!.id)) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    // Readable only while its message is: an upload no message has claimed yet
+    // is the uploader's alone. Uploads from before messages were linked (no
+    // message, no expiry) stay readable by every participant.
+    const visible = attachment.messageId
+      ? await storage.isMessageVisible(attachment.messageId, {
+          userId: req.user!.id,
+          since: getVisibleSince(conversation, req.user!.id),
+        })
+      : !attachment.expiresAt || attachment.uploaderId === req.user!.id;
+    if (!visible) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+
+    const data = await getAttachmentStore().get(attachment.id);
+    if (!data) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+
+    // Not cached: access ends once the message is deleted, hidden or cleared
+    res.set("Cache-Control", "private, no-store");
+    res.type("application/octet-stream").send(data);
+  });
+
+  // ============================================
+  // Receipt Routes
+  // ============================================
+
+  // Get the other participants' delivery/read cursors
+  app.get("/api/conversations/:id/receipts", requireAuth, async (req, res) => {
+    const conversation = await storage.getConversation(req.params.id as string);
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+
+    if (!isParticipant(conversation, req.user!.id)) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const states = await storage.getConversationUserStates(conversation.id);
+
+    // Everyone else gets an entry, so a group message only counts as read once all members read it
+    res.json(
+      getParticipantIds(conversation)
+        .filter((userId) => userId !== req.user!.id)
+        .map((userId) => {
+          const state = states.find((s) => s.userId === userId);
+          return state
+            ? toReceipt(state, state.user.sendReadReceipts)
+            : { userId, deliveredAt: null, readAt: null };
+        })
+    );
+  });
+
+  // Advance my delivery/read cursor to a message
+  app.post("/api/conversations/:id/receipts", requireAuth, async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id as string);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      if (!isParticipant(conversation, req.user!.id)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { messageId, status } = updateReceiptSchema.parse(req.body);
+
+      const message = await storage.getMessage(messageId);
+      if (!message || message.conversationId !== conversation.id) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const { state, changed } = await storage.advanceReceiptCursor(
+        conversation.id,
+        req.user!.id,
+        status,
+        message.createdAt
+      );
+      const receipt = toReceipt(state, req.user!.sendReadReceipts);
+
+      if (changed) {
+        publishToUsers(getParticipantIds(conversation), {
+          type: "receipt",
+          conversationId: conversation.id,
+          receipt,
+        });
+      }
+
+      res.json(receipt);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid receipt" });
       }
       throw err;
     }
   });
 
+  // ============================================
+  // Realtime Handlers
+  // ============================================
+
+  // Typing indicators (no content, only a start/stop signal)
+  onClientEvent(async (userId, event) => {
+    if (event.type !== "typing") return;
+
+    const conversation = await storage.getConversation(event.conversationId);
+    if (!conversation || !isParticipant(conversation, userId)) return;
+
+    setTyping(
+      conversation.id,
+      userId,
+      getParticipantIds(conversation),
+      event.isTyping
+    );
+  });
+
+  // Presence (socket lifecycle + tab visibility)
+  onConnectionChange((userId, connectionId, connected) => {
+    presence.handleConnectionChange(userId, connectionId, connected).catch((err) => {
+      console.error("Failed to update presence:", err);
+    });
+  });
+
+  onClientEvent(async (userId, event, connectionId) => {
+    if (event.type !== "presence") return;
+    await presence.setConnectionStatus(userId, connectionId, event.status);
+  });
+
   return httpServer;
 }
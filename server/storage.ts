@@ -1,4 +1,5 @@
 import { prisma } from "./db";
+import { Prisma } from "../generated/prisma/client";
 
 // Use inferred types from Prisma Client
 type User = Awaited<ReturnType<typeof prisma.user.findUnique>>;
@@ -25,6 +26,10 @@ export async function getUserById(id: string) {
   return prisma.user.findUnique({ where: { id } });
 }
 
+export async function getUsersByIds(ids: string[]) {
+  return prisma.user.findMany({ where: { id: { in: ids }, isActive: true } });
+}
+
 export async function getUserByEmail(email: string) {
   return prisma.user.findUnique({ where: { email } });
 }
@@ -39,7 +44,15 @@ export async function getUserByGoogleId(googleId: string) {
 
 export async function updateUser(
   id: string,
-  data: { name?: string; avatarUrl?: string; publicKey?: string; isActive?: boolean }
+  data: {
+    name?: string;
+    avatarUrl?: string;
+    publicKey?: string;
+    isActive?: boolean;
+    lastSeenAt?: Date;
+    hideLastSeen?: boolean;
+    sendReadReceipts?: boolean;
+  }
 ) {
   return prisma.user.update({ where: { id }, data });
 }
@@ -62,6 +75,17 @@ export async function searchUsers(query: string) {
 // Conversation Operations
 // ============================================
 
+// Fields needed to render the other participant (incl. presence)
+const conversationUserSelect = {
+  id: true,
+  name: true,
+  email: true,
+  avatarUrl: true,
+  publicKey: true,
+  lastSeenAt: true,
+  hideLastSeen: true,
+} as const;
+
 export async function createOrGetConversation(user1Id: string, user2Id: string) {
   // Ensure consistent ordering to avoid duplicate conversations
   const [firstId, secondId] = [user1Id, user2Id].sort();
@@ -80,55 +104,686 @@ export async function createOrGetConversation(user1Id: string, user2Id: string)
 }
 
 export async function getConversation(id: string) {
-  return prisma.conversation.findUnique({ where: { id } });
+  return prisma.conversation.findUnique({
+    where: { id },
+    include: {
+      members: { select: { userId: true, role: true, joinedAt: true } },
+      userStates: { select: { userId: true, clearedAt: true } },
+    },
+  });
+}
+
+// Conversation with full member details (group info / member list)
+export async function getConversationDetails(id: string) {
+  return prisma.conversation.findUnique({
+    where: { id },
+    include: {
+      user1: { select: conversationUserSelect },
+      user2: { select: conversationUserSelect },
+      members: {
+        include: { user: { select: conversationUserSelect } },
+        orderBy: { joinedAt: "asc" },
+      },
+    },
+  });
+}
+
+// Conversations the user takes part in, 1:1 or as a group member
+function participantWhere(userId: string) {
+  return {
+    OR: [
+      { user1Id: userId },
+      { user2Id: userId },
+      { members: { some: { userId } } },
+    ],
+  };
 }
 
 export async function getUserConversations(userId: string) {
   return prisma.conversation.findMany({
-    where: {
-      OR: [{ user1Id: userId }, { user2Id: userId }],
-    },
+    where: participantWhere(userId),
     include: {
-      user1: { select: { id: true, name: true, email: true, avatarUrl: true, publicKey: true } },
-      user2: { select: { id: true, name: true, email: true, avatarUrl: true, publicKey: true } },
+      user1: { select: conversationUserSelect },
+      user2: { select: conversationUserSelect },
+      members: {
+        include: { user: { select: conversationUserSelect } },
+        orderBy: { joinedAt: "asc" },
+      },
       messages: {
-        orderBy: { createdAt: "desc" },
+        where: { hiddenBy: { none: { userId } }, ...notExpiredWhere() },
+        orderBy: [{ seq: "desc" }, { createdAt: "desc" }],
         take: 1,
       },
+      userStates: {
+        where: { userId },
+        select: {
+          userId: true,
+          readAt: true,
+          pinnedAt: true,
+          archivedAt: true,
+          mutedUntil: true,
+          clearedAt: true,
+          deletedAt: true,
+        },
+      },
     },
     orderBy: { updatedAt: "desc" },
   });
 }
 
+// IDs of everyone the user shares a conversation with
+export async function getConversationPartnerIds(userId: string) {
+  const conversations = await prisma.conversation.findMany({
+    where: participantWhere(userId),
+    select: {
+      user1Id: true,
+      user2Id: true,
+      members: { select: { userId: true } },
+    },
+  });
+
+  const ids = new Set<string>();
+  conversations.forEach((c) => {
+    [c.user1Id, c.user2Id, ...c.members.map((m) => m.userId)].forEach((id) => {
+      if (id && id !== userId) ids.add(id);
+    });
+  });
+
+  return Array.from(ids);
+}
+
+// ============================================
+// Group Operations
+// ============================================
+
+// The creator becomes the group's first admin
+export async function createGroupConversation(creatorId: string, name: string, memberIds: string[]) {
+  return prisma.conversation.create({
+    data: {
+      isGroup: true,
+      name,
+      members: {
+        create: [
+          { userId: creatorId, role: "admin" },
+          ...memberIds.map((userId) => ({ userId, role: "member" })),
+        ],
+      },
+    },
+  });
+}
+
+export async function updateConversation(
+  id: string,
+  data: { name?: string; disappearAfterSeconds?: number | null }
+) {
+  return prisma.conversation.update({ where: { id }, data });
+}
+
+// New members get the next sender key generation, so everyone re-keys for them
+export async function addConversationMembers(conversationId: string, userIds: string[]) {
+  await prisma.$transaction([
+    prisma.conversationMember.createMany({
+      data: userIds.map((userId) => ({ conversationId, userId })),
+      skipDuplicates: true,
+    }),
+    prisma.conversation.update({
+      where: { id: conversationId },
+      data: { keyGeneration: { increment: 1 } },
+    }),
+  ]);
+}
+
+export async function updateConversationMember(conversationId: string, userId: string, role: string) {
+  return prisma.conversationMember.update({
+    where: { conversationId_userId: { conversationId, userId } },
+    data: { role },
+  });
+}
+
+// Remove a member. Keeps the group administrable by promoting the longest-standing
+// member when the last admin goes, and deletes the group once nobody is left.
+// Bumps the sender key generation so the member can't read anything sent afterwards.
+export async function removeConversationMember(conversationId: string, userId: string) {
+  return prisma.$transaction(async (tx) => {
+    await tx.conversationMember.delete({
+      where: { conversationId_userId: { conversationId, userId } },
+    });
+    await tx.conversationUserState.deleteMany({ where: { conversationId, userId } });
+    await tx.senderKey.deleteMany({ where: { conversationId, recipientId: userId } });
+
+    const remaining = await tx.conversationMember.findMany({
+      where: { conversationId },
+      orderBy: { joinedAt: "asc" },
+    });
+
+    if (remaining.length === 0) {
+      // Attachment rows cascade; their ids are returned so the files go too
+      const attachments = await tx.attachment.findMany({
+        where: { conversationId },
+        select: { id: true },
+      });
+      await tx.conversation.delete({ where: { id: conversationId } });
+      return { deleted: true, attachmentIds: attachments.map((attachment) => attachment.id) };
+    }
+
+    await tx.conversation.update({
+      where: { id: conversationId },
+      data: { keyGeneration: { increment: 1 } },
+    });
+
+    if (!remaining.some((m) => m.role === "admin")) {
+      await tx.conversationMember.update({
+        where: { conversationId_userId: { conversationId, userId: remaining[0].userId } },
+        data: { role: "admin" },
+      });
+    }
+
+    return { deleted: false, attachmentIds: [] as string[] };
+  });
+}
+
+// ============================================
+// Sender Key Operations
+// ============================================
+
+// Every group chain key shared with the user, with the sender's public key to unwrap it
+export async function getSenderKeysForRecipient(conversationId: string, recipientId: string) {
+  return prisma.senderKey.findMany({
+    where: { conversationId, recipientId },
+    include: { sender: { select: { publicKey: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+export async function hasSenderKey(conversationId: string, senderId: string, generation: number) {
+  const key = await prisma.senderKey.findFirst({
+    where: { conversationId, senderId, generation },
+    select: { id: true },
+  });
+  return !!key;
+}
+
+// One encrypted copy of the sender's chain key per member. Fails with a unique
+// constraint error if the sender already distributed a key for this generation.
+export async function createSenderKeys(
+  conversationId: string,
+  senderId: string,
+  generation: number,
+  shares: { recipientId: string; content: string; iv: string }[]
+) {
+  await prisma.senderKey.createMany({
+    data: shares.map((share) => ({ conversationId, senderId, generation, ...share })),
+  });
+}
+
 // ============================================
 // Message Operations
 // ============================================
 
+// The quoted message travels with every reply (still encrypted), so clients
+// can show it even when it isn't in the loaded pages
+const messageInclude = {
+  replyTo: {
+    select: { id: true, senderId: true, content: true, iv: true, deletedAt: true },
+  },
+  reactions: {
+    select: { userId: true, content: true, iv: true, createdAt: true },
+    orderBy: { createdAt: "asc" },
+  },
+} as const;
+
 export async function createMessage(data: {
   conversationId: string;
   senderId: string;
+  type?: "text" | "system";
   content: string;
   iv: string;
+  clientId?: string;
+  replyToId?: string;
+  attachmentId?: string;
 }) {
-  // Update conversation timestamp
-  await prisma.conversation.update({
-    where: { id: data.conversationId },
-    data: { updatedAt: new Date() },
+  const { attachmentId, ...fields } = data;
+
+  return prisma.$transaction(async (tx) => {
+    // Claim the next sequence number and bump the conversation timestamp.
+    // The row lock serializes concurrent senders in the same conversation.
+    const conversation = await tx.conversation.update({
+      where: { id: data.conversationId },
+      data: { lastSeq: { increment: 1 }, updatedAt: new Date() },
+      select: { lastSeq: true, disappearAfterSeconds: true },
+    });
+
+    // Stamp the expiry from the timer in effect now; system notices stay
+    const expiresAt =
+      fields.type !== "system" && conversation.disappearAfterSeconds
+        ? new Date(Date.now() + conversation.disappearAfterSeconds * 1000)
+        : null;
+
+    const message = await tx.message.create({
+      data: { ...fields, seq: conversation.lastSeq, expiresAt },
+      include: messageInclude,
+    });
+
+    if (attachmentId) {
+      await tx.attachment.update({ where: { id: attachmentId }, data: { messageId: message.id, expiresAt: null } });
+    }
+    return message;
   });
+}
 
-  return prisma.message.create({ data });
+export async function getMessage(id: string) {
+  return prisma.message.findUnique({ where: { id }, include: messageInclude });
 }
 
-export async function getMessages(conversationId: string, cursor?: string, limit = 50) {
-  return prisma.message.findMany({
-    where: { conversationId },
+export async function getMessageByClientId(senderId: string, clientId: string) {
+  return prisma.message.findUnique({
+    where: { senderId_clientId: { senderId, clientId } },
+    include: messageInclude,
+  });
+}
+
+// Replace a message's ciphertext, keeping the previous one as a revision
+export async function editMessage(id: string, data: { content: string; iv: string }) {
+  return prisma.$transaction(async (tx) => {
+    const current = await tx.message.findUniqueOrThrow({ where: { id } });
+
+    await tx.messageRevision.create({
+      data: { messageId: id, content: current.content, iv: current.iv },
+    });
+
+    return tx.message.update({
+      where: { id },
+      data: { ...data, editedAt: new Date() },
+      include: messageInclude,
+    });
+  });
+}
+
+// Delete for everyone: wipe the ciphertext (and its revisions) but keep the row
+// so every client can render a tombstone in its place. Its attachment goes too;
+// returns the ids whose files should be removed.
+export async function deleteMessageForEveryone(id: string) {
+  return prisma.$transaction(async (tx) => {
+    await tx.messageRevision.deleteMany({ where: { messageId: id } });
+    await tx.reaction.deleteMany({ where: { messageId: id } });
+    const attachmentIds = await deleteAttachmentsWhere(tx, { messageId: id });
+
+    const message = await tx.message.update({
+      where: { id },
+      data: { content: "", iv: "", deletedAt: new Date() },
+      include: messageInclude,
+    });
+    return { message, attachmentIds };
+  });
+}
+
+// Delete for me: only this user stops seeing the message
+export async function hideMessage(messageId: string, userId: string) {
+  await prisma.hiddenMessage.createMany({
+    data: [{ messageId, userId }],
+    skipDuplicates: true,
+  });
+}
+
+// Each user has at most one reaction per message; reacting again replaces it
+export async function setReaction(messageId: string, userId: string, data: { content: string; iv: string }) {
+  await prisma.reaction.upsert({
+    where: { messageId_userId: { messageId, userId } },
+    create: { messageId, userId, ...data },
+    update: data,
+  });
+}
+
+export async function removeReaction(messageId: string, userId: string) {
+  await prisma.reaction.deleteMany({ where: { messageId, userId } });
+}
+
+export async function getReactions(messageId: string) {
+  return prisma.reaction.findMany({
+    where: { messageId },
+    select: { userId: true, content: true, iv: true, createdAt: true },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+// Earlier versions of a message, oldest first
+export async function getMessageRevisions(messageId: string) {
+  return prisma.messageRevision.findMany({
+    where: { messageId },
     orderBy: { createdAt: "asc" },
-    take: limit,
+  });
+}
+
+// True if a create failed because the row already exists (e.g. a concurrent retry)
+export function isUniqueConstraintError(err: unknown) {
+  return err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002";
+}
+
+// Expired disappearing messages are gone even before the sweeper deletes them
+function notExpiredWhere() {
+  return { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] };
+}
+
+// Delete disappearing messages past their expiry, with their attachments.
+// Returns how many went and the attachment ids whose files should be removed.
+export async function deleteExpiredMessages() {
+  const expired = { expiresAt: { lte: new Date() } };
+
+  return prisma.$transaction(async (tx) => {
+    const attachmentIds = await deleteAttachmentsWhere(tx, { message: expired });
+    const { count } = await tx.message.deleteMany({ where: expired });
+    return { count, attachmentIds };
+  });
+}
+
+// Where a user's view of a conversation starts: when they joined (groups) or
+// last cleared its history, whichever is later
+export function getHistoryStart(joinedAt?: Date | null, clearedAt?: Date | null) {
+  if (!joinedAt || !clearedAt) return joinedAt ?? clearedAt ?? undefined;
+  return joinedAt > clearedAt ? joinedAt : clearedAt;
+}
+
+// Who is reading: hides messages they deleted for themselves and history from
+// before getHistoryStart() (`since`)
+type MessageViewer = { userId: string; since?: Date };
+
+function visibleMessagesWhere(viewer: MessageViewer) {
+  return {
+    hiddenBy: { none: { userId: viewer.userId } },
+    ...(viewer.since && { createdAt: { gte: viewer.since } }),
+    AND: [notExpiredWhere()],
+  };
+}
+
+// Page backwards from the newest message (or from before `cursor`).
+// Each page is returned oldest-first for display.
+export async function getMessages(
+  conversationId: string,
+  viewer: MessageViewer,
+  cursor?: string,
+  limit = 50
+) {
+  const messages = await prisma.message.findMany({
+    where: { conversationId, ...visibleMessagesWhere(viewer) },
+    orderBy: [{ seq: "desc" }, { createdAt: "desc" }, { id: "desc" }],
+    include: messageInclude,
+    take: limit + 1, // One extra to know if older messages exist
     ...(cursor && {
       cursor: { id: cursor },
       skip: 1,
     }),
   });
+
+  const hasMore = messages.length > limit;
+  const page = messages.slice(0, limit).reverse();
+
+  return {
+    messages: page,
+    nextCursor: hasMore ? page[0].id : null,
+    hasMore,
+  };
+}
+
+// Messages ordered after a known message, oldest first (incremental sync / gap backfill)
+export async function getMessagesAfter(
+  conversationId: string,
+  viewer: MessageViewer,
+  after: { id: string; seq: number; createdAt: Date },
+  limit = 100
+) {
+  const messages = await prisma.message.findMany({
+    where: {
+      conversationId,
+      ...visibleMessagesWhere(viewer),
+      OR: [
+        { seq: { gt: after.seq } },
+        { seq: after.seq, createdAt: { gt: after.createdAt } },
+        { seq: after.seq, createdAt: after.createdAt, id: { gt: after.id } },
+      ],
+    },
+    orderBy: [{ seq: "asc" }, { createdAt: "asc" }, { id: "asc" }],
+    include: messageInclude,
+    take: limit + 1,
+  });
+
+  return {
+    messages: messages.slice(0, limit),
+    hasMore: messages.length > limit,
+  };
+}
+
+// ============================================
+// Attachment Operations
+// ============================================
+
+// Uploads expire unless a message claims them (see createMessage)
+export async function createAttachment(data: {
+  conversationId: string;
+  uploaderId: string;
+  size: number;
+  expiresAt: Date;
+}) {
+  return prisma.attachment.create({ data });
+}
+
+export async function getAttachment(id: string) {
+  return prisma.attachment.findUnique({ where: { id } });
+}
+
+// Whether a message is still there for this user (not expired, hidden, cleared or deleted for everyone)
+export async function isMessageVisible(messageId: string, viewer: MessageViewer) {
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, deletedAt: null, ...visibleMessagesWhere(viewer) },
+    select: { id: true },
+  });
+  return !!message;
+}
+
+export async function deleteAttachment(id: string) {
+  await prisma.attachment.deleteMany({ where: { id } });
+}
+
+// Uploads no message claimed in time (cancelled, or the send failed for good)
+export async function deleteUnclaimedAttachments() {
+  return prisma.$transaction((tx) => deleteAttachmentsWhere(tx, { expiresAt: { lte: new Date() } }));
+}
+
+// Attachments of messages no participant can see any more: each of them has
+// cleared that part of the history or deleted the message for themselves
+export async function deleteUnreachableAttachments(conversationId: string, participantIds: string[]) {
+  const [members, states] = await Promise.all([
+    prisma.conversationMember.findMany({ where: { conversationId }, select: { userId: true, joinedAt: true } }),
+    prisma.conversationUserState.findMany({ where: { conversationId }, select: { userId: true, clearedAt: true } }),
+  ]);
+
+  const goneFor = participantIds.map((userId): Prisma.MessageWhereInput => {
+    const since = getHistoryStart(
+      members.find((m) => m.userId === userId)?.joinedAt,
+      states.find((s) => s.userId === userId)?.clearedAt
+    );
+    return {
+      OR: [...(since ? [{ createdAt: { lt: since } }] : []), { hiddenBy: { some: { userId } } }],
+    };
+  });
+
+  return prisma.$transaction((tx) =>
+    deleteAttachmentsWhere(tx, { conversationId, message: { AND: goneFor } })
+  );
+}
+
+// Delete attachment rows and return their ids, so the caller can remove the files
+async function deleteAttachmentsWhere(tx: Prisma.TransactionClient, where: Prisma.AttachmentWhereInput) {
+  const attachments = await tx.attachment.findMany({ where, select: { id: true } });
+  const ids = attachments.map((attachment) => attachment.id);
+  if (ids.length > 0) await tx.attachment.deleteMany({ where: { id: { in: ids } } });
+  return ids;
+}
+
+// ============================================
+// Receipt Operations
+// ============================================
+
+export async function getConversationUserStates(conversationId: string) {
+  return prisma.conversationUserState.findMany({
+    where: { conversationId },
+    include: { user: { select: { sendReadReceipts: true } } },
+  });
+}
+
+// Move a user's delivered/read cursor forward (never backwards)
+export async function advanceReceiptCursor(
+  conversationId: string,
+  userId: string,
+  status: "delivered" | "read",
+  at: Date
+) {
+  const key = { conversationId_userId: { conversationId, userId } };
+  const state = await prisma.conversationUserState.findUnique({ where: key });
+
+  const data: { deliveredAt?: Date; readAt?: Date } = {};
+  // Reading a message implies it was delivered
+  if (!state?.deliveredAt || at > state.deliveredAt) data.deliveredAt = at;
+  if (status === "read" && (!state?.readAt || at > state.readAt)) data.readAt = at;
+
+  if (state && Object.keys(data).length === 0) return { state, changed: false };
+
+  const updated = await prisma.conversationUserState.upsert({
+    where: key,
+    create: { conversationId, userId, ...data },
+    update: data,
+  });
+
+  return { state: updated, changed: true };
+}
+
+// Pin, archive or mute a conversation for one user. Archiving unpins and
+// pinning unarchives, so a conversation is never both.
+export async function updateConversationPreferences(
+  conversationId: string,
+  userId: string,
+  preferences: { pinned?: boolean; archived?: boolean; mutedUntil?: Date | null }
+) {
+  const data: { pinnedAt?: Date | null; archivedAt?: Date | null; mutedUntil?: Date | null } = {};
+  const now = new Date();
+
+  if (preferences.pinned !== undefined) {
+    data.pinnedAt = preferences.pinned ? now : null;
+    if (preferences.pinned) data.archivedAt = null;
+  }
+  if (preferences.archived !== undefined) {
+    data.archivedAt = preferences.archived ? now : null;
+    if (preferences.archived) data.pinnedAt = null;
+  }
+  if (preferences.mutedUntil !== undefined) data.mutedUntil = preferences.mutedUntil;
+
+  return prisma.conversationUserState.upsert({
+    where: { conversationId_userId: { conversationId, userId } },
+    create: { conversationId, userId, ...data },
+    update: data,
+  });
+}
+
+// Hide everything sent so far from this user's view of the conversation
+export async function clearConversationHistory(conversationId: string, userId: string) {
+  const now = new Date();
+  await prisma.conversationUserState.upsert({
+    where: { conversationId_userId: { conversationId, userId } },
+    create: { conversationId, userId, clearedAt: now },
+    update: { clearedAt: now },
+  });
+}
+
+// Clear the history and drop the conversation from this user's list; it
+// comes back (empty) with the next message
+export async function deleteConversationForUser(conversationId: string, userId: string) {
+  const now = new Date();
+  const data = { clearedAt: now, deletedAt: now, pinnedAt: null, archivedAt: null };
+  await prisma.conversationUserState.upsert({
+    where: { conversationId_userId: { conversationId, userId } },
+    create: { conversationId, userId, ...data },
+    update: data,
+  });
+}
+
+// Starting the chat again puts it back in the list right away
+export async function restoreConversationForUser(conversationId: string, userId: string) {
+  await prisma.conversationUserState.updateMany({
+    where: { conversationId, userId, deletedAt: { not: null } },
+    data: { deletedAt: null },
+  });
+}
+
+// Delete a conversation for everyone, with all its messages (cascade).
+// Returns the ids of its attachments so their files can be removed too.
+export async function deleteConversation(conversationId: string) {
+  const attachments = await prisma.attachment.findMany({
+    where: { conversationId },
+    select: { id: true },
+  });
+  await prisma.conversation.delete({ where: { id: conversationId } });
+  return attachments.map((attachment) => attachment.id);
+}
+
+// Messages from others newer than the user's read cursor (and history start),
+// for many conversations in one grouped query. Returns counts by conversation id.
+export async function countUnreadMessages(
+  userId: string,
+  conversations: { id: string; readAt: Date | null; since?: Date }[]
+): Promise<Map<string, number>> {
+  if (conversations.length === 0) return new Map();
+
+  const groups = await prisma.message.groupBy({
+    by: ["conversationId"],
+    where: {
+      senderId: { not: userId },
+      type: "text",
+      deletedAt: null,
+      hiddenBy: { none: { userId } },
+      AND: [
+        notExpiredWhere(),
+        {
+          OR: conversations.map(({ id, readAt, since }) => ({
+            conversationId: id,
+            ...((readAt || since) && {
+              createdAt: { ...(readAt && { gt: readAt }), ...(since && { gte: since }) },
+            }),
+          })),
+        },
+      ],
+    },
+    _count: { _all: true },
+  });
+
+  return new Map(groups.map((group) => [group.conversationId, group._count._all]));
+}
+
+export async function getUnreadTotal(userId: string) {
+  const conversations = await prisma.conversation.findMany({
+    where: participantWhere(userId),
+    select: {
+      id: true,
+      userStates: { where: { userId }, select: { readAt: true, mutedUntil: true, clearedAt: true } },
+      members: { where: { userId }, select: { joinedAt: true } },
+    },
+  });
+
+  // Muted conversations don't count
+  const now = new Date();
+  const counted = conversations.filter((conv) => {
+    const mutedUntil = conv.userStates[0]?.mutedUntil;
+    return !mutedUntil || mutedUntil <= now;
+  });
+
+  const counts = await countUnreadMessages(
+    userId,
+    counted.map((conv) => ({
+      id: conv.id,
+      readAt: conv.userStates[0]?.readAt ?? null,
+      since: getHistoryStart(conv.members[0]?.joinedAt, conv.userStates[0]?.clearedAt),
+    }))
+  );
+
+  return Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
 }
 
 // ============================================
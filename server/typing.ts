@@ -0,0 +1,56 @@
+import { publishToUsers } from "./realtime";
+
+// A "typing" state expires unless the client refreshes it
+const TYPING_TTL_MS = 8 * 1000;
+
+// Active typing timers keyed by conversation + user
+const typingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+// ============================================
+// Typing State
+// ============================================
+
+/**
+ * Start or stop a user's typing state in a conversation and notify the
+ * other participants. Carries no message content.
+ */
+export function setTyping(
+  conversationId: string,
+  userId: string,
+  recipientIds: string[],
+  isTyping: boolean
+) {
+  const key = `${conversationId}:${userId}`;
+  const existing = typingTimers.get(key);
+  if (existing) clearTimeout(existing);
+
+  if (!isTyping) {
+    typingTimers.delete(key);
+    // Only announce the stop if the user was actually typing
+    if (existing) publishTyping(conversationId, userId, recipientIds, false);
+    return;
+  }
+
+  // Refreshes within the TTL don't need to be re-broadcast
+  if (!existing) publishTyping(conversationId, userId, recipientIds, true);
+
+  typingTimers.set(
+    key,
+    setTimeout(() => {
+      typingTimers.delete(key);
+      publishTyping(conversationId, userId, recipientIds, false);
+    }, TYPING_TTL_MS)
+  );
+}
+
+function publishTyping(
+  conversationId: string,
+  userId: string,
+  recipientIds: string[],
+  isTyping: boolean
+) {
+  publishToUsers(
+    recipientIds.filter((id) => id !== userId),
+    { type: "typing", conversationId, userId, isTyping }
+  );
+}
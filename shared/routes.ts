@@ -61,10 +61,74 @@ export const api = {
       method: "POST" as const,
       path: "/api/conversations",
     },
+    unread: {
+      method: "GET" as const,
+      path: "/api/conversations/unread",
+    },
     get: {
       method: "GET" as const,
       path: "/api/conversations/:id",
     },
+    setDisappearing: {
+      method: "PUT" as const,
+      path: "/api/conversations/:id/disappearing",
+    },
+    updatePreferences: {
+      method: "PATCH" as const,
+      path: "/api/conversations/:id/preferences",
+    },
+    clear: {
+      method: "POST" as const, // Clears my history only
+      path: "/api/conversations/:id/clear",
+    },
+    hide: {
+      method: "POST" as const, // Deletes it for me only
+      path: "/api/conversations/:id/hide",
+    },
+    delete: {
+      method: "DELETE" as const, // Deletes it for both people (1:1)
+      path: "/api/conversations/:id",
+    },
+  },
+
+  // ============================================
+  // Group Routes (groups are conversations; messages use the routes below)
+  // ============================================
+  groups: {
+    create: {
+      method: "POST" as const,
+      path: "/api/groups",
+    },
+    update: {
+      method: "PATCH" as const,
+      path: "/api/groups/:id",
+    },
+    addMembers: {
+      method: "POST" as const,
+      path: "/api/groups/:id/members",
+    },
+    updateMember: {
+      method: "PATCH" as const,
+      path: "/api/groups/:id/members/:userId",
+    },
+    removeMember: {
+      method: "DELETE" as const,
+      path: "/api/groups/:id/members/:userId",
+    },
+    leave: {
+      method: "POST" as const,
+      path: "/api/groups/:id/leave",
+    },
+    senderKeys: {
+      list: {
+        method: "GET" as const,
+        path: "/api/groups/:id/sender-keys",
+      },
+      distribute: {
+        method: "POST" as const,
+        path: "/api/groups/:id/sender-keys",
+      },
+    },
   },
 
   // ============================================
@@ -79,6 +143,65 @@ export const api = {
       method: "POST" as const,
       path: "/api/conversations/:id/messages",
     },
+    edit: {
+      method: "PATCH" as const,
+      path: "/api/conversations/:id/messages/:messageId",
+    },
+    revisions: {
+      method: "GET" as const,
+      path: "/api/conversations/:id/messages/:messageId/revisions",
+    },
+    delete: {
+      method: "DELETE" as const,
+      path: "/api/conversations/:id/messages/:messageId",
+    },
+    hide: {
+      method: "POST" as const,
+      path: "/api/conversations/:id/messages/:messageId/hide",
+    },
+    react: {
+      method: "PUT" as const, // Sets (or replaces) my reaction
+      path: "/api/conversations/:id/messages/:messageId/reactions",
+    },
+    unreact: {
+      method: "DELETE" as const,
+      path: "/api/conversations/:id/messages/:messageId/reactions",
+    },
+  },
+
+  // ============================================
+  // Attachment Routes (bodies are encrypted bytes)
+  // ============================================
+  attachments: {
+    upload: {
+      method: "POST" as const,
+      path: "/api/conversations/:id/attachments",
+    },
+    download: {
+      method: "GET" as const,
+      path: "/api/attachments/:id",
+    },
+  },
+
+  // ============================================
+  // Receipt Routes
+  // ============================================
+  receipts: {
+    list: {
+      method: "GET" as const,
+      path: "/api/conversations/:id/receipts",
+    },
+    update: {
+      method: "POST" as const,
+      path: "/api/conversations/:id/receipts",
+    },
+  },
+
+  // ============================================
+  // Realtime (WebSocket)
+  // ============================================
+  realtime: {
+    path: "/ws",
   },
 };
 
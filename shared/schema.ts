@@ -10,6 +10,8 @@ export const userSchema = z.object({
   name: z.string().nullable(),
   avatarUrl: z.string().nullable(),
   publicKey: z.string().nullable(),
+  hideLastSeen: z.boolean(),
+  sendReadReceipts: z.boolean(),
 });
 
 export const userSearchResultSchema = z.object({
@@ -20,45 +22,363 @@ export const userSearchResultSchema = z.object({
   publicKey: z.string().nullable(),
 });
 
+// ============================================
+// Presence Schemas
+// ============================================
+export const presenceSchema = z.object({
+  status: z.enum(["online", "away", "offline"]),
+  lastSeenAt: z.string().or(z.date()).nullable(), // null when hidden by the user
+});
+
 // ============================================
 // Conversation Schemas
 // ============================================
+export const conversationUserSchema = userSearchResultSchema.extend({
+  presence: presenceSchema,
+});
+
+// Group members carry their role
+export const memberRoleSchema = z.enum(["admin", "member"]);
+
+export const conversationMemberSchema = conversationUserSchema.extend({
+  role: memberRoleSchema,
+});
+
 export const conversationSchema = z.object({
   id: z.string(),
-  otherUser: userSearchResultSchema,
+  isGroup: z.boolean(),
+  name: z.string().nullable(), // Group name
+  keyGeneration: z.number(), // Current group sender key generation (0 for 1:1)
+  otherUser: conversationUserSchema.nullable(), // null for groups
+  members: z.array(conversationMemberSchema), // Empty for 1:1 conversations
+  disappearAfterSeconds: z.number().nullable(), // Disappearing messages timer; null = off
   lastMessage: z.object({
     id: z.string(),
+    type: z.string(), // "text" or "system"
     content: z.string(),
     iv: z.string(),
     senderId: z.string(),
     createdAt: z.string().or(z.date()),
+    deletedAt: z.string().or(z.date()).nullable(),
   }).nullable(),
+  unreadCount: z.number(),
+  isPinned: z.boolean(),
+  isArchived: z.boolean(), // Archived, with no newer messages since
+  mutedUntil: z.string().or(z.date()).nullable(), // Only while in the future
   updatedAt: z.string().or(z.date()),
 });
 
+export const unreadTotalSchema = z.object({
+  total: z.number(),
+});
+
 export const newConversationSchema = z.object({
   id: z.string(),
-  otherUser: userSearchResultSchema,
+  isGroup: z.boolean(),
+  name: z.string().nullable(),
+  keyGeneration: z.number(),
+  otherUser: conversationUserSchema.nullable(),
+  members: z.array(conversationMemberSchema),
+  disappearAfterSeconds: z.number().nullable(),
   createdAt: z.string().or(z.date()),
 });
 
+// ============================================
+// Disappearing Message Schemas
+// ============================================
+export const DISAPPEARING_TIMER_OPTIONS: number[] = [
+  5 * 60, // 5 minutes
+  60 * 60, // 1 hour
+  24 * 60 * 60, // 1 day
+  7 * 24 * 60 * 60, // 1 week
+  28 * 24 * 60 * 60, // 4 weeks
+];
+
+export const setDisappearingTimerSchema = z.object({
+  seconds: z
+    .number()
+    .refine((seconds) => DISAPPEARING_TIMER_OPTIONS.includes(seconds), "Unsupported timer")
+    .nullable(), // null turns it off
+});
+
+// Plaintext content of server-generated system messages
+export const systemNoticeSchema = z.discriminatedUnion("event", [
+  z.object({
+    event: z.literal("disappearing-timer"), // The sender changed the timer
+    seconds: z.number().nullable(),
+  }),
+]);
+
+export function parseSystemNotice(content: string) {
+  try {
+    const result = systemNoticeSchema.safeParse(JSON.parse(content));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// Conversation Preference Schemas (per user)
+// ============================================
+// Far-future mute for "until I unmute"
+export const MUTED_INDEFINITELY = "9999-12-31T00:00:00.000Z";
+
+// Omitted fields are left unchanged
+export const conversationPreferencesSchema = z.object({
+  pinned: z.boolean().optional(),
+  archived: z.boolean().optional(),
+  mutedUntil: z.string().datetime().nullable().optional(), // null unmutes
+});
+
+// ============================================
+// Group Schemas
+// ============================================
+export const MAX_GROUP_MEMBERS = 100;
+
+export const createGroupSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  memberIds: z.array(z.string()).min(1).max(MAX_GROUP_MEMBERS - 1), // Creator is added as admin
+});
+
+export const updateGroupSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+export const addMembersSchema = z.object({
+  userIds: z.array(z.string()).min(1).max(MAX_GROUP_MEMBERS - 1),
+});
+
+export const updateMemberSchema = z.object({
+  role: memberRoleSchema,
+});
+
+// ============================================
+// Sender Key Schemas (group E2E encryption)
+// ============================================
+// A member's chain key for one generation, encrypted for the requesting user
+export const senderKeySchema = z.object({
+  senderId: z.string(),
+  senderPublicKey: z.string().nullable(), // ECDH public key to unwrap the chain key with
+  generation: z.number(),
+  content: z.string(), // Encrypted chain key
+  iv: z.string(),
+});
+
+export const senderKeyListSchema = z.object({
+  generation: z.number(), // Generation new messages must use
+  keys: z.array(senderKeySchema),
+});
+
+// Distribute a new chain key: one encrypted copy per current member (including yourself)
+export const distributeSenderKeySchema = z.object({
+  generation: z.number().int().min(0),
+  shares: z.array(z.object({
+    recipientId: z.string(),
+    content: z.string(),
+    iv: z.string(),
+  })).min(1).max(MAX_GROUP_MEMBERS),
+});
+
+// Group message content is "sk<generation>:<ciphertext>" so readers know which
+// sender key generation to decrypt with
+const GROUP_CONTENT_PATTERN = /^sk(\d+):(.+)$/;
+
+export function formatGroupContent(generation: number, ciphertext: string) {
+  return `sk${generation}:${ciphertext}`;
+}
+
+export function parseGroupContent(content: string) {
+  const match = GROUP_CONTENT_PATTERN.exec(content);
+  if (!match) return null;
+  return { generation: Number(match[1]), ciphertext: match[2] };
+}
+
 // ============================================
 // Message Schemas
 // ============================================
+// The message a reply quotes (encrypted like any other message)
+export const quotedMessageSchema = z.object({
+  id: z.string(),
+  senderId: z.string(),
+  content: z.string(),
+  iv: z.string(),
+  deletedAt: z.string().or(z.date()).nullable(),
+});
+
+// One user's reaction to a message; the emoji is encrypted like message content
+export const reactionSchema = z.object({
+  userId: z.string(),
+  content: z.string(), // Encrypted
+  iv: z.string(),
+  createdAt: z.string().or(z.date()),
+});
+
 export const messageSchema = z.object({
   id: z.string(),
   conversationId: z.string(),
-  senderId: z.string(),
+  senderId: z.string(), // For system messages: who caused the notice
+  type: z.string(), // "text", or "system" with a plaintext systemNoticeSchema as content
   content: z.string(), // Encrypted
   iv: z.string(),
+  seq: z.number(), // Per-conversation, increases by 1 per message (0 = legacy)
+  clientId: z.string().nullable(), // Sender's client-generated id
+  editedAt: z.string().or(z.date()).nullable(),
+  deletedAt: z.string().or(z.date()).nullable(), // Deleted for everyone (content and iv are empty)
+  expiresAt: z.string().or(z.date()).nullable(), // Disappearing message
+  replyToId: z.string().nullable(), // Quoted message
+  replyTo: quotedMessageSchema.nullable(), // Null if the quoted message is gone
+  reactions: z.array(reactionSchema), // Oldest first
   createdAt: z.string().or(z.date()),
 });
 
+export const messagePageSchema = z.object({
+  messages: z.array(messageSchema), // Oldest first
+  nextCursor: z.string().nullable(), // Pass as `cursor` to load older messages
+  hasMore: z.boolean(),
+});
+
+// Response of the messages list in sync mode (?after=<message id>)
+export const messageSyncSchema = z.object({
+  messages: z.array(messageSchema), // Oldest first
+  hasMore: z.boolean(), // Call again with the last message id
+});
+
 export const sendMessageSchema = z.object({
   content: z.string(), // Encrypted ciphertext
   iv: z.string(),
+  clientId: z.string().min(1).max(64).optional(), // Or send an Idempotency-Key header
+  replyToId: z.string().optional(), // Message being replied to (same conversation)
+  attachmentId: z.string().optional(), // Upload this message carries; deleted along with it
+});
+
+export const reactSchema = z.object({
+  content: z.string().max(1024), // Encrypted emoji
+  iv: z.string(),
+});
+
+export const editMessageSchema = z.object({
+  content: z.string(), // Encrypted ciphertext
+  iv: z.string(),
 });
 
+// An earlier version of an edited message
+export const messageRevisionSchema = z.object({
+  id: z.string(),
+  senderId: z.string(),
+  content: z.string(), // Encrypted
+  iv: z.string(),
+  createdAt: z.string().or(z.date()), // When it was replaced
+});
+
+// ============================================
+// Receipt Schemas
+// ============================================
+// A participant's delivery/read cursor (createdAt of the newest acknowledged message)
+export const receiptSchema = z.object({
+  userId: z.string(),
+  deliveredAt: z.string().or(z.date()).nullable(),
+  readAt: z.string().or(z.date()).nullable(), // null when the user disabled read receipts
+});
+
+export const updateReceiptSchema = z.object({
+  messageId: z.string(),
+  status: z.enum(["delivered", "read"]),
+});
+
+// ============================================
+// Attachment Schemas
+// ============================================
+// Largest file that can be attached (the encrypted upload adds a 16-byte tag)
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+// Response of an upload; the key and metadata go in the encrypted message instead
+export const attachmentUploadSchema = z.object({
+  id: z.string(),
+  size: z.number(), // Encrypted size in bytes
+});
+
+// ============================================
+// Realtime Schemas
+// ============================================
+// WebSocket close code for a session that ended (logout); clients don't reconnect
+export const REALTIME_SESSION_ENDED = 4001;
+
+// Events pushed from the server over the WebSocket connection
+export const realtimeServerEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("message:new"),
+    message: messageSchema,
+  }),
+  z.object({
+    type: z.literal("message:updated"), // Edited, or deleted for everyone
+    message: messageSchema,
+  }),
+  z.object({
+    type: z.literal("reaction:updated"), // Someone reacted or removed their reaction
+    conversationId: z.string(),
+    messageId: z.string(),
+    reactions: z.array(reactionSchema), // All current reactions on the message
+  }),
+  z.object({
+    type: z.literal("message:hidden"), // Deleted for me (sent to my own sockets only)
+    conversationId: z.string(),
+    messageId: z.string(),
+  }),
+  z.object({
+    type: z.literal("typing"),
+    conversationId: z.string(),
+    userId: z.string(),
+    isTyping: z.boolean(),
+  }),
+  z.object({
+    type: z.literal("presence"),
+    userId: z.string(),
+    presence: presenceSchema,
+  }),
+  z.object({
+    type: z.literal("receipt"),
+    conversationId: z.string(),
+    receipt: receiptSchema,
+  }),
+  z.object({
+    // Group name or membership changed (also sent to removed members), or the
+    // user changed their own pin/archive/mute settings
+    type: z.literal("conversation:updated"),
+    conversationId: z.string(),
+  }),
+  z.object({
+    // The user cleared or deleted the conversation for themselves (sent to their other tabs)
+    type: z.literal("conversation:cleared"),
+    conversationId: z.string(),
+  }),
+  z.object({
+    // The conversation and all its messages were deleted for everyone
+    type: z.literal("conversation:deleted"),
+    conversationId: z.string(),
+  }),
+  z.object({
+    // A member distributed a new sender key
+    type: z.literal("sender-key:new"),
+    conversationId: z.string(),
+    senderId: z.string(),
+    generation: z.number(),
+  }),
+]);
+
+// Events sent by the client (never carry message content)
+export const realtimeClientEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("typing"),
+    conversationId: z.string(),
+    isTyping: z.boolean(),
+  }),
+  z.object({
+    type: z.literal("presence"),
+    status: z.enum(["online", "away"]),
+  }),
+]);
+
 // ============================================
 // Auth Schemas
 // ============================================
@@ -74,6 +394,8 @@ export const phoneOtpVerifySchema = z.object({
 export const updateProfileSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   publicKey: z.string().optional(),
+  hideLastSeen: z.boolean().optional(),
+  sendReadReceipts: z.boolean().optional(),
 });
 
 // ============================================
@@ -81,7 +403,25 @@ export const updateProfileSchema = z.object({
 // ============================================
 export type User = z.infer<typeof userSchema>;
 export type UserSearchResult = z.infer<typeof userSearchResultSchema>;
+export type Presence = z.infer<typeof presenceSchema>;
+export type ConversationUser = z.infer<typeof conversationUserSchema>;
+export type MemberRole = z.infer<typeof memberRoleSchema>;
+export type ConversationMember = z.infer<typeof conversationMemberSchema>;
 export type Conversation = z.infer<typeof conversationSchema>;
+export type UnreadTotal = z.infer<typeof unreadTotalSchema>;
 export type NewConversation = z.infer<typeof newConversationSchema>;
+export type SenderKey = z.infer<typeof senderKeySchema>;
+export type SenderKeyList = z.infer<typeof senderKeyListSchema>;
 export type Message = z.infer<typeof messageSchema>;
+export type QuotedMessage = z.infer<typeof quotedMessageSchema>;
+export type Reaction = z.infer<typeof reactionSchema>;
+export type SystemNotice = z.infer<typeof systemNoticeSchema>;
+export type ConversationPreferences = z.infer<typeof conversationPreferencesSchema>;
+export type AttachmentUpload = z.infer<typeof attachmentUploadSchema>;
+export type MessagePage = z.infer<typeof messagePageSchema>;
+export type MessageSync = z.infer<typeof messageSyncSchema>;
 export type SendMessage = z.infer<typeof sendMessageSchema>;
+export type MessageRevision = z.infer<typeof messageRevisionSchema>;
+export type Receipt = z.infer<typeof receiptSchema>;
+export type RealtimeServerEvent = z.infer<typeof realtimeServerEventSchema>;
+export type RealtimeClientEvent = z.infer<typeof realtimeClientEventSchema>;